@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+const { TaskStore } = require('./store');
+const { formatTask, formatTaskList } = require('./format');
+
+const commands = {
+  add: (store, args) => formatTask(store.add(args.join(' '))),
+  done: (store, args) => formatTask(store.complete(Number(args[0]))),
+  list: (store) => formatTaskList(store.list()),
+};
+
+function main(argv) {
+  const [command, ...args] = argv;
+  const handler = commands[command];
+  if (!handler) {
+    return `Usage: tasklet <${Object.keys(commands).join('|')}> [args]`;
+  }
+  return handler(new TaskStore(), args);
+}
+
+console.log(main(process.argv.slice(2)));
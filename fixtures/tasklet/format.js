@@ -0,0 +1,11 @@
+// Turns tasks into printable lines: "[x] 1. Write docs"
+function formatTask(task) {
+  return `[${task.done ? 'x' : ' '}] ${task.id}. ${task.title}`;
+}
+
+function formatTaskList(tasks) {
+  if (tasks.length === 0) return 'No tasks yet.';
+  return tasks.map(formatTask).join('\n');
+}
+
+module.exports = { formatTask, formatTaskList };
@@ -0,0 +1,34 @@
+const fs = require('fs');
+
+// Keeps tasks in a JSON file next to the current working directory.
+class TaskStore {
+  constructor(file = 'tasks.json') {
+    this.file = file;
+    this.tasks = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+  }
+
+  add(title) {
+    const task = { id: this.tasks.length + 1, title, done: false };
+    this.tasks.push(task);
+    this.save();
+    return task;
+  }
+
+  complete(id) {
+    const task = this.tasks.find(t => t.id === id);
+    if (!task) throw new Error(`No task with id ${id}`);
+    task.done = true;
+    this.save();
+    return task;
+  }
+
+  list() {
+    return this.tasks;
+  }
+
+  save() {
+    fs.writeFileSync(this.file, JSON.stringify(this.tasks, null, 2));
+  }
+}
+
+module.exports = { TaskStore };
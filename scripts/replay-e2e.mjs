@@ -0,0 +1,60 @@
+// scripts/replay-e2e.mjs
+// End-to-end run of the generation route against the bundled sample project.
+// Start the server in replay mode first so no LLM key is needed:
+//   LLM_MODE=replay npm run dev
+//   npm run e2e:replay
+import { promises as fs } from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+const SAMPLE_DIR = path.resolve('fixtures', 'tasklet');
+const POLL_INTERVAL_MS = 1000;
+const TIMEOUT_MS = 5 * 60 * 1000;
+// Statuses a job won't leave on its own; this script never submits a plan, so 'awaiting_review' is final too
+const FINAL_STATUSES = ['completed', 'partial', 'failed', 'cancelled', 'awaiting_review'];
+
+async function zipSampleProject() {
+    const zip = new JSZip();
+    for (const name of (await fs.readdir(SAMPLE_DIR)).sort()) {
+        zip.file(`tasklet/${name}`, await fs.readFile(path.join(SAMPLE_DIR, name)));
+    }
+    return zip.generateAsync({ type: 'uint8array' });
+}
+
+async function main() {
+    const form = new FormData();
+    form.append('sourceType', 'upload');
+    form.append('uploadedFile', new File([await zipSampleProject()], 'tasklet.zip', { type: 'application/zip' }));
+
+    const startResponse = await fetch(`${BASE_URL}/api/generate-tutorial`, { method: 'POST', body: form });
+    const started = await startResponse.json();
+    if (!startResponse.ok || !started.jobId) throw new Error(`Failed to start job: ${started.error || startResponse.status}`);
+    console.log(`Started job ${started.jobId}`);
+
+    const deadline = Date.now() + TIMEOUT_MS;
+    let job;
+    while (Date.now() < deadline) {
+        ({ job } = await (await fetch(`${BASE_URL}/api/jobs/${started.jobId}`)).json());
+        console.log(`  [${job.status}] ${job.stage || ''} ${job.message || ''}`);
+        if (FINAL_STATUSES.includes(job.status)) break;
+        await new Promise(res => setTimeout(res, POLL_INTERVAL_MS));
+    }
+    if (!FINAL_STATUSES.includes(job?.status)) throw new Error(`Job did not finish within ${TIMEOUT_MS / 1000}s (last status: ${job?.status ?? 'unknown'})`);
+    if (job.status !== 'completed') {
+        const detail = job.error || job.failedChapters?.map(c => `chapter ${c.num}: ${c.error}`).join('; ');
+        throw new Error(`Job ended with status '${job.status}'${detail ? `: ${detail}` : ''}`);
+    }
+
+    const download = await fetch(`${BASE_URL}/api/jobs/${started.jobId}/download`);
+    if (!download.ok) throw new Error(`Download failed with status ${download.status}`);
+    const tutorial = await JSZip.loadAsync(await download.arrayBuffer());
+    const names = Object.keys(tutorial.files).sort();
+    console.log(`Downloaded ${job.fileName} with ${names.length} files:\n${names.map(n => `  - ${n}`).join('\n')}`);
+    if (!names.includes('index.md')) throw new Error('Tutorial zip is missing index.md');
+}
+
+main().catch(error => {
+    console.error(`E2E replay failed: ${error.message}`);
+    process.exit(1);
+});
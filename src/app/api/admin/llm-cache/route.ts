@@ -0,0 +1,55 @@
+// app/api/admin/llm-cache/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getLlmCacheEntry, getLlmCacheStats, listLlmCacheEntries, purgeLlmCache } from '@/lib/llm-cache';
+import { checkAdminAuth } from '@/lib/admin-auth';
+
+/**
+ * GET                 -> cache statistics plus entry summaries (`?limit=&offset=`)
+ * GET ?key=<hash>     -> a single entry including its cached response
+ */
+export async function GET(request: NextRequest) {
+    const unauthorized = checkAdminAuth(request);
+    if (unauthorized) return unauthorized;
+
+    const { searchParams } = request.nextUrl;
+    try {
+        const key = searchParams.get('key');
+        if (key) {
+            const entry = await getLlmCacheEntry(key);
+            if (!entry) {
+                return NextResponse.json({ success: false, error: `Cache entry ${key} not found.` }, { status: 404 });
+            }
+            return NextResponse.json({ success: true, entry });
+        }
+
+        const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 1000);
+        const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+        const [stats, entries] = await Promise.all([getLlmCacheStats(), listLlmCacheEntries(limit, offset)]);
+        return NextResponse.json({ success: true, stats, entries });
+    } catch (error: any) {
+        console.error("Error reading LLM cache:", error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE ?key=<hash>    -> remove one entry
+ * DELETE ?expired=true  -> remove expired entries only
+ * DELETE                -> purge the whole cache
+ */
+export async function DELETE(request: NextRequest) {
+    const unauthorized = checkAdminAuth(request);
+    if (unauthorized) return unauthorized;
+
+    const { searchParams } = request.nextUrl;
+    try {
+        const removed = await purgeLlmCache({
+            key: searchParams.get('key') || undefined,
+            expiredOnly: searchParams.get('expired') === 'true',
+        });
+        return NextResponse.json({ success: true, removed });
+    } catch (error: any) {
+        console.error("Error purging LLM cache:", error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
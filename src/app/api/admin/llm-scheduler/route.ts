@@ -0,0 +1,14 @@
+// app/api/admin/llm-scheduler/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getLlmSchedulerStats } from '@/lib/llm-scheduler';
+import { checkAdminAuth } from '@/lib/admin-auth';
+
+/**
+ * GET -> queue depth, in-flight requests and rate-limit window usage per provider/model
+ */
+export async function GET(request: NextRequest) {
+    const unauthorized = checkAdminAuth(request);
+    if (unauthorized) return unauthorized;
+
+    return NextResponse.json({ success: true, stats: getLlmSchedulerStats() });
+}
@@ -0,0 +1,32 @@
+// app/api/dry-run/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { parseGenerationRequest } from '@/lib/form-input';
+import { runDryRun } from '@/lib/dry-run';
+
+// Accepts the same form as /api/generate-tutorial but only crawls: no LLM calls are made.
+export async function POST(request: NextRequest) {
+    console.log("API route /api/dry-run hit");
+
+    let parsed;
+    try {
+        parsed = await parseGenerationRequest(request);
+    } catch (error: any) {
+        console.error("Error parsing request:", error);
+        return NextResponse.json({ success: false, error: `Invalid request format: ${error.message}` }, { status: 400 });
+    }
+    if (!parsed.success) {
+        return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    try {
+        // Stops crawling if the client goes away before the preview is ready
+        const dryRun = await runDryRun(parsed.input, request.signal);
+        if (!dryRun.success || !dryRun.result) {
+            return NextResponse.json({ success: false, error: dryRun.error }, { status: 400 });
+        }
+        return NextResponse.json({ success: true, ...dryRun.result });
+    } catch (error: any) {
+        console.error("Unhandled error during dry run:", error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
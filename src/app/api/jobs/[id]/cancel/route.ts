@@ -0,0 +1,21 @@
+// app/api/jobs/[id]/cancel/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob } from '@/lib/jobs';
+
+/**
+ * Stops a queued or running job. The job reports status 'cancelled' once its pipeline has
+ * stopped; cancelling a finished job is a no-op that returns it as-is.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const job = await cancelJob(id);
+        if (!job) {
+            return NextResponse.json({ success: false, error: `Job ${id} not found.` }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, job });
+    } catch (error: any) {
+        console.error(`Error cancelling job ${id}:`, error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
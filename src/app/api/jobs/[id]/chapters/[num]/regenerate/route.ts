@@ -0,0 +1,51 @@
+// app/api/jobs/[id]/chapters/[num]/regenerate/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { regenerateJobChapter } from '@/lib/jobs';
+
+const MAX_FEEDBACK_LENGTH = 2000;
+
+/**
+ * Rewrites one chapter of a finished job's tutorial, optionally steered by `{ "feedback": "..." }`,
+ * and responds with the updated zip. The job's own download, report and failed chapters are
+ * updated too, so GET /api/jobs/:id reflects the new state afterwards.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string; num: string }> }) {
+    const { id, num } = await params;
+    const chapterNum = Number(num);
+    if (!Number.isInteger(chapterNum) || chapterNum < 1) {
+        return NextResponse.json({ success: false, error: `Invalid chapter number '${num}'.` }, { status: 400 });
+    }
+
+    let feedback: string | undefined;
+    try {
+        const body = await request.text();
+        const parsed = body.trim() ? JSON.parse(body) : {};
+        if (parsed.feedback !== undefined && typeof parsed.feedback !== 'string') {
+            return NextResponse.json({ success: false, error: "'feedback' must be a string." }, { status: 400 });
+        }
+        feedback = parsed.feedback?.trim() || undefined;
+    } catch {
+        return NextResponse.json({ success: false, error: 'Request body must be JSON.' }, { status: 400 });
+    }
+    if (feedback && feedback.length > MAX_FEEDBACK_LENGTH) {
+        return NextResponse.json({ success: false, error: `Feedback is limited to ${MAX_FEEDBACK_LENGTH} characters.` }, { status: 400 });
+    }
+
+    try {
+        // Closing the request stops the LLM calls; the tutorial is left unchanged
+        const result = await regenerateJobChapter(id, chapterNum, feedback, request.signal);
+        if (!result.success) {
+            return NextResponse.json({ success: false, error: result.error }, { status: result.httpStatus });
+        }
+
+        const zipFileName = result.job.fileName || "tutorial.zip";
+        const headers = new Headers({
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${zipFileName}"`,
+        });
+        return new NextResponse(new Uint8Array(result.zipBuffer), { status: 200, headers });
+    } catch (error: any) {
+        console.error(`Error regenerating chapter ${chapterNum} of job ${id}:`, error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
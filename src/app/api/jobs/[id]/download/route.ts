@@ -0,0 +1,31 @@
+// app/api/jobs/[id]/download/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, readJobOutput } from '@/lib/jobs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const job = await getJob(id);
+        if (!job) {
+            return NextResponse.json({ success: false, error: `Job ${id} not found.` }, { status: 404 });
+        }
+        if (job.status !== 'completed' && job.status !== 'partial') {
+            return NextResponse.json({ success: false, error: `Job ${id} is ${job.status}; no tutorial to download yet.` }, { status: 409 });
+        }
+
+        const zipBuffer = await readJobOutput(id);
+        if (!zipBuffer) {
+            return NextResponse.json({ success: false, error: `Output for job ${id} is missing.` }, { status: 404 });
+        }
+
+        const zipFileName = job.fileName || "tutorial.zip";
+        const headers = new Headers({
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${zipFileName}"`,
+        });
+        return new NextResponse(new Uint8Array(zipBuffer), { status: 200, headers });
+    } catch (error: any) {
+        console.error(`Error serving download for job ${id}:`, error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
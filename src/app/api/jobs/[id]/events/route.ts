@@ -0,0 +1,68 @@
+// app/api/jobs/[id]/events/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, subscribeToJob } from '@/lib/jobs';
+import { GenerationJob } from '@/lib/types';
+
+const HEARTBEAT_INTERVAL_MS = 15000; // Keeps proxies from closing an idle stream
+
+/**
+ * Server-Sent Events stream of a job's progress. Each `job` event carries the full
+ * job record (including its event timeline), so reconnecting clients just resync.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const initialJob = await getJob(id);
+    if (!initialJob) {
+        return NextResponse.json({ success: false, error: `Job ${id} not found.` }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            let closed = false;
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                cleanup();
+                try {
+                    controller.close();
+                } catch {
+                    // Stream was already cancelled by the client
+                }
+            };
+
+            const send = (job: GenerationJob) => {
+                if (closed) return;
+                controller.enqueue(encoder.encode(`event: job\ndata: ${JSON.stringify(job)}\n\n`));
+                if (job.status === 'completed' || job.status === 'partial' || job.status === 'failed' || job.status === 'cancelled') close();
+            };
+
+            const unsubscribe = subscribeToJob(id, send);
+            const heartbeat = setInterval(() => {
+                if (!closed) controller.enqueue(encoder.encode(`: heartbeat\n\n`));
+            }, HEARTBEAT_INTERVAL_MS);
+            cleanup = () => {
+                unsubscribe();
+                clearInterval(heartbeat);
+            };
+
+            request.signal.addEventListener('abort', close);
+            send(initialJob);
+            // Re-read once subscribed, in case the job finished between the first read and subscribing
+            getJob(id).then(latest => { if (latest) send(latest); }).catch(() => {});
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        },
+    });
+}
@@ -0,0 +1,48 @@
+// app/api/jobs/[id]/export/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, readJobOutput } from '@/lib/jobs';
+import { readTutorialContent } from '@/lib/tutorial-content';
+import { EXPORT_FORMATS, exportTutorial, isExportFormat } from '@/lib/exports';
+
+/**
+ * The finished tutorial converted to another format: `?format=html` (static site), `mkdocs` or `epub`.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format');
+    if (!isExportFormat(format)) {
+        return NextResponse.json(
+            { success: false, error: `Unknown export format "${format ?? ''}". Expected one of: ${Object.keys(EXPORT_FORMATS).join(', ')}.` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const job = await getJob(id);
+        if (!job) {
+            return NextResponse.json({ success: false, error: `Job ${id} not found.` }, { status: 404 });
+        }
+        if (job.status !== 'completed' && job.status !== 'partial') {
+            return NextResponse.json({ success: false, error: `Job ${id} is ${job.status}; no tutorial to export yet.` }, { status: 409 });
+        }
+
+        const zipBuffer = await readJobOutput(id);
+        if (!zipBuffer) {
+            return NextResponse.json({ success: false, error: `Output for job ${id} is missing.` }, { status: 404 });
+        }
+        const content = await readTutorialContent(zipBuffer, job.projectName || 'Tutorial', job.chapters);
+        if (!content.success || !content.data) {
+            return NextResponse.json({ success: false, error: content.error }, { status: 500 });
+        }
+
+        const exported = await exportTutorial(content.data, format, job);
+        const headers = new Headers({
+            'Content-Type': exported.contentType,
+            'Content-Disposition': `attachment; filename="${exported.fileName}"`,
+        });
+        return new NextResponse(new Uint8Array(exported.buffer), { status: 200, headers });
+    } catch (error: any) {
+        console.error(`Error exporting job ${id} as ${format}:`, error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
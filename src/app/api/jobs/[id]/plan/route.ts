@@ -0,0 +1,31 @@
+// app/api/jobs/[id]/plan/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { submitJobPlan } from '@/lib/jobs';
+
+/**
+ * Resumes a job paused with status 'awaiting_review'. The body is `{ "plan": ... }` in the shape
+ * of the job's `plan` (abstractions, relationships, chapterOrder); chapters are written from it.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    let body: { plan?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ success: false, error: 'Request body must be JSON.' }, { status: 400 });
+    }
+    if (!body || typeof body !== 'object' || body.plan === undefined) {
+        return NextResponse.json({ success: false, error: "Missing 'plan'." }, { status: 400 });
+    }
+
+    try {
+        const result = await submitJobPlan(id, body.plan);
+        if (!result.success) {
+            return NextResponse.json({ success: false, error: result.error }, { status: result.httpStatus });
+        }
+        return NextResponse.json({ success: true, job: result.job });
+    } catch (error: any) {
+        console.error(`Error submitting the plan for job ${id}:`, error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
@@ -0,0 +1,34 @@
+// app/api/jobs/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteJob, getJob } from '@/lib/jobs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const job = await getJob(id);
+        if (!job) {
+            return NextResponse.json({ success: false, error: `Job ${id} not found.` }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, job });
+    } catch (error: any) {
+        console.error(`Error reading job ${id}:`, error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
+
+/**
+ * Deletes a finished, failed or cancelled job together with its tutorial. Running jobs answer 409.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const result = await deleteJob(id);
+        if (!result.success) {
+            return NextResponse.json({ success: false, error: result.error }, { status: result.httpStatus });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error(`Error deleting job ${id}:`, error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
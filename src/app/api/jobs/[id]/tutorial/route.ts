@@ -0,0 +1,33 @@
+// app/api/jobs/[id]/tutorial/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, readJobOutput } from '@/lib/jobs';
+import { readTutorialContent } from '@/lib/tutorial-content';
+
+/**
+ * The finished tutorial's Markdown (index.md and the chapters in order), for the built-in viewer.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const job = await getJob(id);
+        if (!job) {
+            return NextResponse.json({ success: false, error: `Job ${id} not found.` }, { status: 404 });
+        }
+        if (job.status !== 'completed' && job.status !== 'partial') {
+            return NextResponse.json({ success: false, error: `Job ${id} is ${job.status}; no tutorial to view yet.` }, { status: 409 });
+        }
+
+        const zipBuffer = await readJobOutput(id);
+        if (!zipBuffer) {
+            return NextResponse.json({ success: false, error: `Output for job ${id} is missing.` }, { status: 404 });
+        }
+        const result = await readTutorialContent(zipBuffer, job.projectName || 'Tutorial', job.chapters);
+        if (!result.success || !result.data) {
+            return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+        }
+        return NextResponse.json({ success: true, tutorial: result.data, failedChapters: job.failedChapters ?? [] });
+    } catch (error: any) {
+        console.error(`Error reading tutorial for job ${id}:`, error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
@@ -0,0 +1,15 @@
+// app/api/jobs/route.ts
+import { NextResponse } from 'next/server';
+import { listJobs } from '@/lib/jobs';
+
+/**
+ * Every stored generation, newest first, for the tutorial library.
+ */
+export async function GET() {
+    try {
+        return NextResponse.json({ success: true, jobs: await listJobs() });
+    } catch (error: any) {
+        console.error("Error listing jobs:", error);
+        return NextResponse.json({ success: false, error: `Server error: ${error.message || 'Unknown server error'}` }, { status: 500 });
+    }
+}
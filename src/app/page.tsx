@@ -1,6 +1,7 @@
 // app/page.tsx
 import TutorialForm from "../components/tutorial-form";
 import { Suspense } from 'react';
+import Link from "next/link";
 
 export default function Home() {
   return (
@@ -12,6 +13,7 @@ export default function Home() {
                 <p className="mt-2 text-sm sm:text-base text-gray-500">
                     Enter a GitHub repository URL or upload a local project zip to generate a beginner-friendly tutorial.
                 </p>
+                <Link href="/tutorials" className="mt-2 inline-block text-sm text-blue-400 hover:underline">Browse past tutorials</Link>
             </div>
             
             <Suspense fallback={<div className="text-center p-8 text-gray-400">Loading form...</div>}>
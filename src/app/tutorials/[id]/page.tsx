@@ -0,0 +1,13 @@
+// app/tutorials/[id]/page.tsx
+import TutorialViewer from "../../../components/tutorial-viewer";
+
+export default async function TutorialPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return (
+    <main className="min-h-full p-6 sm:p-12 bg-gradient-to-br from-gray-900 to-gray-800 text-gray-200">
+      <div className="w-full max-w-6xl mx-auto">
+        <TutorialViewer jobId={id} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,17 @@
+// app/tutorials/page.tsx
+import Link from "next/link";
+import TutorialLibrary from "../../components/tutorial-library";
+
+export default function LibraryPage() {
+  return (
+    <main className="min-h-full p-6 sm:p-12 bg-gradient-to-br from-gray-900 to-gray-800 text-gray-200">
+      <div className="w-full max-w-4xl mx-auto">
+        <div className="flex items-baseline justify-between mb-6">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-500 to-blue-500 bg-clip-text text-transparent">Tutorial Library</h1>
+          <Link href="/" className="text-sm text-blue-400 hover:underline">New tutorial</Link>
+        </div>
+        <TutorialLibrary />
+      </div>
+    </main>
+  );
+}
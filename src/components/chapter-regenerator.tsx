@@ -0,0 +1,101 @@
+// app/(components)/chapter-regenerator.tsx
+import React, { useState } from 'react';
+import LoadingSpinner from './loading-spinner';
+import { GenerationJob } from '@/lib/types';
+
+interface ChapterRegeneratorProps {
+  job: GenerationJob;
+  onUpdated: (job: GenerationJob) => void; // The job after the rewrite (new report, failed chapters)
+}
+
+// Rewrites one chapter of the finished tutorial in place; the Download link then serves the updated zip
+const ChapterRegenerator: React.FC<ChapterRegeneratorProps> = ({ job, onUpdated }) => {
+  const chapters = job.chapters ?? [];
+  const [chapterNum, setChapterNum] = useState(() => job.failedChapters?.[0]?.num ?? chapters[0]?.num ?? 1);
+  const [feedback, setFeedback] = useState('');
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<number | null>(null);
+
+  if (chapters.length === 0) return null; // Jobs from before chapters were saved can't be regenerated
+
+  const failedNums = new Set(job.failedChapters?.map(c => c.num));
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    setError(null);
+    setDone(null);
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/chapters/${chapterNum}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ feedback: feedback.trim() || undefined }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Regeneration failed with status ${response.status}`);
+      }
+      await response.arrayBuffer(); // The updated zip; the Download link serves the same file
+
+      const jobResponse = await fetch(`/api/jobs/${job.id}`, { cache: 'no-store' });
+      if (jobResponse.ok) {
+        const { job: updated } = await jobResponse.json() as { job: GenerationJob };
+        onUpdated(updated);
+      }
+      setDone(chapterNum);
+      setFeedback('');
+    } catch (err: any) {
+      console.error("Chapter regeneration failed:", err);
+      setError(err.message || 'Chapter regeneration failed.');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-600 rounded-md p-3 text-sm text-gray-300 space-y-2">
+      <p className="font-medium">Regenerate a Chapter</p>
+      <div>
+        <label htmlFor="regenerateChapter" className="block text-xs text-gray-400">Chapter</label>
+        <select
+          id="regenerateChapter"
+          value={chapterNum}
+          onChange={(e) => setChapterNum(Number(e.target.value))}
+          disabled={isRegenerating}
+          className="mt-1 block w-full px-2 py-1 border border-gray-600 bg-gray-700 rounded-md focus:outline-none focus:ring-purple-500 focus:border-purple-500 text-white text-sm"
+        >
+          {chapters.map(chapter => (
+            <option key={chapter.num} value={chapter.num}>
+              {chapter.num}. {chapter.name}{failedNums.has(chapter.num) ? ' (placeholder)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="regenerateFeedback" className="block text-xs text-gray-400">Feedback (Optional)</label>
+        <textarea
+          id="regenerateFeedback"
+          rows={3}
+          maxLength={2000}
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          disabled={isRegenerating}
+          placeholder="e.g. Explain the retry logic in more depth and add a sequence diagram."
+          className="mt-1 block w-full px-2 py-1 border border-gray-600 bg-gray-700 rounded-md focus:outline-none focus:ring-purple-500 focus:border-purple-500 text-white text-sm"
+        />
+      </div>
+      <button
+        type="button"
+        onClick={handleRegenerate}
+        disabled={isRegenerating}
+        className="inline-block py-1 px-3 text-gray-200 font-medium rounded-md border border-purple-500 hover:bg-purple-900/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isRegenerating ? <LoadingSpinner message={`Regenerating chapter ${chapterNum}...`} /> : 'Regenerate Chapter'}
+      </button>
+      {done !== null && <p className="text-xs text-green-400">Chapter {done} was rewritten; download the tutorial again to get it.</p>}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default ChapterRegenerator;
@@ -0,0 +1,27 @@
+// app/(components)/export-links.tsx
+import React from 'react';
+import { ExportFormat } from '@/lib/types';
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  html: 'HTML site',
+  mkdocs: 'MkDocs / TechDocs',
+  epub: 'EPUB',
+};
+
+interface ExportLinksProps {
+  jobId: string;
+  className?: string; // Of each link
+}
+
+// Download links for the other formats a finished tutorial can be exported to
+const ExportLinks: React.FC<ExportLinksProps> = ({ jobId, className = 'text-blue-400 hover:underline' }) => (
+  <>
+    {(Object.keys(EXPORT_LABELS) as ExportFormat[]).map(format => (
+      <a key={format} href={`/api/jobs/${jobId}/export?format=${format}`} className={className}>
+        {EXPORT_LABELS[format]}
+      </a>
+    ))}
+  </>
+);
+
+export default ExportLinks;
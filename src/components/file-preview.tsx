@@ -0,0 +1,67 @@
+// app/(components)/file-preview.tsx
+import React from 'react';
+import { DryRunResult } from '@/lib/types';
+import { formatUsd } from '@/lib/usage';
+
+interface FilePreviewProps {
+  preview: DryRunResult;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const FilePreview: React.FC<FilePreviewProps> = ({ preview }) => {
+  return (
+    <div className="border border-gray-600 rounded-md p-3 text-sm text-gray-300 space-y-2">
+      <p>
+        <span className="font-medium text-gray-200">{preview.projectName}</span>
+        {': '}{preview.files.length} files ({formatBytes(preview.totalBytes)})
+        {' · '}~{preview.estimatedPromptTokens.toLocaleString()} prompt tokens for abstraction discovery
+        {' · '}est. input cost {formatUsd(preview.estimatedCostUsd)} ({preview.provider}/{preview.model})
+      </p>
+      {preview.discoveryMode === 'map-reduce' ? (
+        <p className="text-yellow-400">
+          Over the {preview.contextBudget.budgetTokens.toLocaleString()}-token context budget: abstractions will be found
+          in {preview.discoveryCalls - 1} directory batches and then merged ({preview.discoveryCalls} LLM calls).
+        </p>
+      ) : preview.contextBudget.fullFiles < preview.files.length && (
+        <p className="text-yellow-400">
+          Over the {preview.contextBudget.budgetTokens.toLocaleString()}-token context budget: {preview.contextBudget.fullFiles} files
+          will be sent in full, {preview.contextBudget.outlinedFiles} as outlines and {preview.contextBudget.omittedFiles} by name only.
+        </p>
+      )}
+      {preview.files.length === 0 && (
+        <p className="text-yellow-400">No files matched. Adjust the include/exclude patterns or size limit.</p>
+      )}
+      <details className="group">
+        <summary className="cursor-pointer group-open:mb-1">Included files ({preview.files.length})</summary>
+        <ul className="max-h-60 overflow-y-auto text-xs font-mono">
+          {preview.files.map(file => (
+            <li key={file.path} className="flex justify-between gap-2 border-t border-gray-700 py-0.5">
+              <span className="truncate" title={file.path}>{file.path}</span>
+              <span className="text-gray-400 tabular-nums flex-shrink-0">{formatBytes(file.size)}</span>
+            </li>
+          ))}
+        </ul>
+      </details>
+      {preview.skippedFiles.length > 0 && (
+        <details className="group">
+          <summary className="cursor-pointer group-open:mb-1">Skipped files ({preview.skippedFiles.length})</summary>
+          <ul className="max-h-60 overflow-y-auto text-xs font-mono">
+            {preview.skippedFiles.map(file => (
+              <li key={file.path} className="flex justify-between gap-2 border-t border-gray-700 py-0.5">
+                <span className="truncate" title={file.path}>{file.path}</span>
+                <span className="text-gray-400 flex-shrink-0">{file.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default FilePreview;
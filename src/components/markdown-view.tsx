@@ -0,0 +1,69 @@
+// app/(components)/markdown-view.tsx
+'use client';
+
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import MermaidDiagram from './mermaid-diagram';
+import type { Nodes } from 'hast';
+
+interface MarkdownViewProps {
+  markdown: string;
+  files: Set<string>; // Tutorial files links may point to (index.md and the chapters)
+  onNavigate: (filename: string) => void;
+}
+
+// Concatenated text of a hast node, e.g. the source inside <pre><code>
+function nodeText(node: Nodes | undefined): string {
+  if (!node) return '';
+  if (node.type === 'text') return node.value;
+  if (node.type === 'root' || node.type === 'element') return node.children.map(child => nodeText(child)).join('');
+  return '';
+}
+
+// Tutorial file a relative link like "./02_Task_Store.md#usage" points to, if any
+function linkedFile(href: string | undefined, files: Set<string>): string | null {
+  if (!href || /^[a-z][a-z0-9+.-]*:/i.test(href)) return null; // Absolute URL
+  try {
+    const file = decodeURIComponent(href.split('#')[0].replace(/^\.\//, ''));
+    return files.has(file) ? file : null;
+  } catch {
+    return null; // Malformed escape like "%E0": not a tutorial file
+  }
+}
+
+// Renders one page of the tutorial: GFM, highlighted code, mermaid diagrams and in-viewer links
+const MarkdownView: React.FC<MarkdownViewProps> = ({ markdown, files, onNavigate }) => {
+  const components: Components = {
+    pre: ({ node, children, ...props }) => {
+      const code = node?.children[0];
+      const classes = code?.type === 'element' ? code.properties?.className : undefined;
+      if (Array.isArray(classes) && classes.includes('language-mermaid')) {
+        return <MermaidDiagram chart={nodeText(code).trim()} />;
+      }
+      return <pre {...props}>{children}</pre>;
+    },
+    a: ({ node: _node, href, children, ...props }) => {
+      const file = linkedFile(href, files);
+      if (file) {
+        return <a {...props} href={`#${file}`} onClick={(e) => { e.preventDefault(); onNavigate(file); }}>{children}</a>;
+      }
+      return <a {...props} href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+    },
+  };
+
+  return (
+    <div className="tutorial-markdown">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[[rehypeHighlight, { plainText: ['mermaid'] }]]}
+        components={components}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownView;
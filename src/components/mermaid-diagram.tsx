@@ -0,0 +1,53 @@
+// app/(components)/mermaid-diagram.tsx
+'use client'; // Mermaid renders in the browser
+
+import React, { useEffect, useId, useState } from 'react';
+
+interface MermaidDiagramProps {
+  chart: string;
+}
+
+let mermaidReady: Promise<typeof import('mermaid').default> | null = null;
+
+// Loaded on first use; mermaid is large and only needed when a page has a diagram
+function loadMermaid() {
+  mermaidReady ??= import('mermaid').then(({ default: mermaid }) => {
+    mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+    return mermaid;
+  });
+  return mermaidReady;
+}
+
+// Renders a ```mermaid block; falls back to its source when the diagram doesn't parse
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ chart }) => {
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSvg(null);
+    setError(null);
+    loadMermaid()
+      .then(mermaid => mermaid.render(id, chart))
+      .then(result => { if (!cancelled) setSvg(result.svg); })
+      .catch((err: any) => {
+        console.warn("Mermaid diagram failed to render:", err);
+        if (!cancelled) setError(err?.message || 'Invalid diagram');
+      });
+    return () => { cancelled = true; };
+  }, [id, chart]);
+
+  if (error) {
+    return (
+      <div className="my-4">
+        <p className="text-xs text-yellow-400">Diagram could not be rendered ({error}); showing its source.</p>
+        <pre><code>{chart}</code></pre>
+      </div>
+    );
+  }
+  if (!svg) return <div className="my-4 text-xs text-gray-400">Rendering diagram...</div>;
+  return <div className="my-4 flex justify-center overflow-x-auto" dangerouslySetInnerHTML={{ __html: svg }} />;
+};
+
+export default MermaidDiagram;
@@ -0,0 +1,196 @@
+// app/(components)/plan-review.tsx
+import React, { useState } from 'react';
+import LoadingSpinner from './loading-spinner';
+import { GenerationJob, TutorialPlan } from '@/lib/types';
+import { addAbstraction, deleteAbstraction, mergeAbstractions, moveChapter, updateAbstraction } from '@/lib/plan-review';
+
+interface PlanReviewProps {
+  jobId: string;
+  plan: TutorialPlan; // As proposed by the LLM
+  onSubmitted: (job: GenerationJob) => void;
+}
+
+const inputClass = "block w-full px-2 py-1 border border-gray-600 bg-gray-700 rounded-md focus:outline-none focus:ring-purple-500 focus:border-purple-500 text-white text-sm";
+const smallButtonClass = "px-2 py-0.5 text-xs rounded border border-gray-500 text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Lets the user correct abstractions, files and chapter order before any chapter is written
+const PlanReview: React.FC<PlanReviewProps> = ({ jobId, plan: proposedPlan, onSubmitted }) => {
+  const [plan, setPlan] = useState<TutorialPlan>(proposedPlan);
+  const [dragPos, setDragPos] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const incomplete = plan.abstractions.some(a => !a.name.trim() || !a.description.trim());
+  const fileName = (idx: number) => plan.files[idx] ?? `file ${idx}`;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/plan`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || `Submitting the plan failed with status ${response.status}`);
+      }
+      onSubmitted(data.job as GenerationJob);
+    } catch (err: any) {
+      console.error("Plan submission failed:", err);
+      setError(err.message || 'Submitting the plan failed.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border border-purple-600 rounded-md p-3 text-sm text-gray-300 space-y-3">
+      <div>
+        <p className="font-medium text-gray-200">Review the Tutorial Plan</p>
+        <p className="text-xs text-gray-400">
+          Each abstraction becomes one chapter, in this order. Rename, merge, delete or add abstractions, change their files and drag chapters to reorder them, then continue to write the chapters.
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="planSummary" className="block text-xs text-gray-400">Project Summary</label>
+        <textarea
+          id="planSummary"
+          rows={3}
+          value={plan.relationships.summary}
+          onChange={(e) => setPlan({ ...plan, relationships: { ...plan.relationships, summary: e.target.value } })}
+          className={`mt-1 ${inputClass}`}
+        />
+      </div>
+
+      <ol className="space-y-2">
+        {plan.chapterOrder.map((absIdx, pos) => {
+          const abstraction = plan.abstractions[absIdx];
+          return (
+            <li
+              key={absIdx}
+              draggable
+              onDragStart={() => setDragPos(pos)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragPos !== null) setPlan(moveChapter(plan, dragPos, pos));
+                setDragPos(null);
+              }}
+              onDragEnd={() => setDragPos(null)}
+              className={`border rounded-md p-2 space-y-2 ${dragPos === pos ? 'border-purple-500 opacity-50' : 'border-gray-600'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="cursor-move text-gray-500 select-none" title="Drag to reorder">⠿</span>
+                <span className="text-xs text-gray-400 w-6">{pos + 1}.</span>
+                <input
+                  type="text"
+                  aria-label={`Chapter ${pos + 1} name`}
+                  value={abstraction.name}
+                  onChange={(e) => setPlan(updateAbstraction(plan, absIdx, { name: e.target.value }))}
+                  className={inputClass}
+                />
+                <button type="button" className={smallButtonClass} disabled={pos === 0} onClick={() => setPlan(moveChapter(plan, pos, pos - 1))} aria-label="Move up">↑</button>
+                <button type="button" className={smallButtonClass} disabled={pos === plan.chapterOrder.length - 1} onClick={() => setPlan(moveChapter(plan, pos, pos + 1))} aria-label="Move down">↓</button>
+                <button
+                  type="button"
+                  className={`${smallButtonClass} text-red-300 border-red-500`}
+                  disabled={plan.abstractions.length === 1}
+                  onClick={() => setPlan(deleteAbstraction(plan, absIdx))}
+                >
+                  Delete
+                </button>
+              </div>
+              <textarea
+                aria-label={`Chapter ${pos + 1} description`}
+                rows={2}
+                value={abstraction.description}
+                onChange={(e) => setPlan(updateAbstraction(plan, absIdx, { description: e.target.value }))}
+                placeholder="What this chapter should explain"
+                className={inputClass}
+              />
+              <div className="flex flex-wrap gap-1">
+                {abstraction.files.map(fileIdx => (
+                  <span key={fileIdx} className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-gray-700 text-xs text-gray-300 font-mono">
+                    {fileName(fileIdx)}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${fileName(fileIdx)}`}
+                      onClick={() => setPlan(updateAbstraction(plan, absIdx, { files: abstraction.files.filter(f => f !== fileIdx) }))}
+                      className="text-gray-400 hover:text-red-300"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <select
+                  aria-label={`Add a file to chapter ${pos + 1}`}
+                  value=""
+                  onChange={(e) => setPlan(updateAbstraction(plan, absIdx, { files: [...abstraction.files, Number(e.target.value)] }))}
+                  className={inputClass}
+                >
+                  <option value="">Add file...</option>
+                  {plan.files.map((path, fileIdx) => abstraction.files.includes(fileIdx) ? null : (
+                    <option key={fileIdx} value={fileIdx}>{path}</option>
+                  ))}
+                </select>
+                <select
+                  aria-label={`Merge chapter ${pos + 1} into another`}
+                  value=""
+                  onChange={(e) => setPlan(mergeAbstractions(plan, absIdx, Number(e.target.value)))}
+                  className={inputClass}
+                >
+                  <option value="">Merge into...</option>
+                  {plan.chapterOrder.map((otherIdx, otherPos) => otherIdx === absIdx ? null : (
+                    <option key={otherIdx} value={otherIdx}>{otherPos + 1}. {plan.abstractions[otherIdx].name}</option>
+                  ))}
+                </select>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <button
+        type="button"
+        className={smallButtonClass}
+        onClick={() => setPlan(addAbstraction(plan, { name: 'New Chapter', description: '', files: [] }))}
+      >
+        + Add abstraction
+      </button>
+
+      {plan.relationships.details.length > 0 && (
+        <details>
+          <summary className="text-xs text-gray-400 cursor-pointer">Relationships ({plan.relationships.details.length})</summary>
+          <ul className="mt-1 text-xs text-gray-400 space-y-0.5">
+            {plan.relationships.details.map((rel, i) => (
+              <li key={i}>
+                {plan.abstractions[rel.from]?.name} → {plan.abstractions[rel.to]?.name}{rel.label && `: ${rel.label}`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={isSubmitting || incomplete}
+          className="py-1.5 px-4 text-white font-medium rounded-md bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? <LoadingSpinner message="Submitting..." /> : 'Write Chapters'}
+        </button>
+        <button type="button" className={smallButtonClass} disabled={isSubmitting} onClick={() => setPlan(proposedPlan)}>
+          Reset
+        </button>
+        {incomplete && <span className="text-xs text-yellow-400">Every chapter needs a name and a description.</span>}
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default PlanReview;
@@ -0,0 +1,120 @@
+// app/(components)/progress-timeline.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { GenerationJob, PipelineStage } from '@/lib/types';
+
+interface ProgressTimelineProps {
+  job: GenerationJob;
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  fetching: 'Fetch files',
+  abstractions: 'Identify abstractions',
+  relationships: 'Analyze relationships',
+  ordering: 'Order chapters',
+  review: 'Review plan',
+  chapters: 'Write chapters',
+  packaging: 'Package tutorial',
+};
+
+interface StageSummary {
+  stage: PipelineStage;
+  startedAt: number;
+  endedAt?: number;
+  message: string;
+  retries: number;
+  status: 'running' | 'done' | 'failed' | 'cancelled';
+  progress?: { current: number; total: number };
+}
+
+// Folds the job's event log into one entry per stage, in the order they ran
+function summarizeStages(job: GenerationJob): StageSummary[] {
+  const stages: StageSummary[] = [];
+  for (const event of job.events || []) {
+    const at = Date.parse(event.timestamp);
+    let current = stages[stages.length - 1];
+    if (!current || current.stage !== event.stage) {
+      if (current && !current.endedAt) {
+        current.endedAt = at;
+        current.status = 'done';
+      }
+      current = { stage: event.stage, startedAt: at, message: event.message, retries: 0, status: 'running' };
+      stages.push(current);
+    }
+    current.message = event.message;
+    if (event.total) current.progress = { current: event.current ?? 0, total: event.total };
+    if (event.type === 'retry') current.retries++;
+    if (event.type === 'error' || event.type === 'cancelled') {
+      current.status = event.type === 'error' ? 'failed' : 'cancelled';
+      current.endedAt = at;
+    }
+  }
+
+  const last = stages[stages.length - 1];
+  if (last && last.status === 'running' && (job.status === 'completed' || job.status === 'partial')) {
+    last.status = 'done';
+    last.endedAt = Date.parse(job.updatedAt);
+  }
+  return stages;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(ms, 0) / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(Math.floor(seconds % 60)).padStart(2, '0')}s`;
+}
+
+const ProgressTimeline: React.FC<ProgressTimelineProps> = ({ job }) => {
+  const isActive = job.status === 'queued' || job.status === 'running' || job.status === 'awaiting_review';
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while running so the active stage's timer keeps moving between events
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  const stages = summarizeStages(job);
+  if (stages.length === 0) {
+    return <p className="text-sm text-gray-400">Waiting for the job to start...</p>;
+  }
+
+  return (
+    <ol className="space-y-2 border border-gray-600 rounded-md p-3">
+      {stages.map(stage => (
+        <li key={stage.stage} className="flex items-start gap-3 text-sm">
+          <span
+            className={`mt-1 inline-block w-2.5 h-2.5 rounded-full flex-shrink-0 ${
+              stage.status === 'done' ? 'bg-green-500'
+                : stage.status === 'failed' ? 'bg-red-500'
+                : stage.status === 'cancelled' ? 'bg-gray-500'
+                : 'bg-purple-500 animate-pulse'
+            }`}
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-between gap-2">
+              <span className={`font-medium ${stage.status === 'failed' ? 'text-red-300' : 'text-gray-200'}`}>
+                {STAGE_LABELS[stage.stage]}
+                {stage.progress && ` (${stage.progress.current}/${stage.progress.total})`}
+              </span>
+              <span className="text-gray-400 tabular-nums">
+                {formatDuration((stage.endedAt ?? now) - stage.startedAt)}
+              </span>
+            </div>
+            <p className="text-xs text-gray-400 truncate" title={stage.message}>
+              {stage.status === 'failed' ? `Failed: ${stage.message}` : stage.message}
+            </p>
+            {stage.retries > 0 && (
+              <p className="text-xs text-yellow-400">{stage.retries} {stage.retries === 1 ? 'retry' : 'retries'}</p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ProgressTimeline;
@@ -0,0 +1,120 @@
+// app/(components)/stage-model-options.tsx
+import React from 'react';
+import { LlmStage, LlmStageOverrides } from '@/lib/types';
+
+// Form fields are kept as strings; empty means the server's setting for that stage
+export type StageModelInputs = Record<LlmStage, { model: string; temperature: string; maxOutputTokens: string }>;
+
+const STAGE_LABELS: Record<LlmStage, string> = {
+  abstractions: 'Abstractions',
+  relationships: 'Relationships',
+  ordering: 'Chapter order',
+  chapters: 'Chapters',
+  summaries: 'Chapter summaries',
+};
+
+const STAGES = Object.keys(STAGE_LABELS) as LlmStage[];
+
+export const EMPTY_STAGE_MODEL_INPUTS = Object.fromEntries(
+  STAGES.map(stage => [stage, { model: '', temperature: '', maxOutputTokens: '' }])
+) as StageModelInputs;
+
+// Only the stages and fields that were filled in, or null when nothing was
+export function toStageOverrides(inputs: StageModelInputs): LlmStageOverrides | null {
+  const overrides: LlmStageOverrides = {};
+  for (const stage of STAGES) {
+    const { model, temperature, maxOutputTokens } = inputs[stage];
+    const settings = {
+      ...(model.trim() && { model: model.trim() }),
+      ...(temperature && { temperature: Number(temperature) }),
+      ...(maxOutputTokens && { maxOutputTokens: Number(maxOutputTokens) }),
+    };
+    if (Object.keys(settings).length > 0) overrides[stage] = settings;
+  }
+  return Object.keys(overrides).length > 0 ? overrides : null;
+}
+
+// Back to form fields, e.g. to reuse a past generation's settings
+export function fromStageOverrides(overrides?: LlmStageOverrides): StageModelInputs {
+  return Object.fromEntries(STAGES.map(stage => {
+    const settings = overrides?.[stage];
+    return [stage, {
+      model: settings?.model ?? '',
+      temperature: settings?.temperature !== undefined ? String(settings.temperature) : '',
+      maxOutputTokens: settings?.maxOutputTokens !== undefined ? String(settings.maxOutputTokens) : '',
+    }];
+  })) as StageModelInputs;
+}
+
+interface StageModelOptionsProps {
+  value: StageModelInputs;
+  onChange: (value: StageModelInputs) => void;
+}
+
+const inputClass = "block w-full px-2 py-1 border border-gray-600 bg-gray-700 rounded-md focus:outline-none focus:ring-purple-500 focus:border-purple-500 text-white text-xs";
+
+const StageModelOptions: React.FC<StageModelOptionsProps> = ({ value, onChange }) => {
+  const update = (stage: LlmStage, field: keyof StageModelInputs[LlmStage], fieldValue: string) => {
+    onChange({ ...value, [stage]: { ...value[stage], [field]: fieldValue } });
+  };
+
+  return (
+    <div>
+      <p className="block text-sm font-medium text-gray-300">Per-Stage Models (Optional)</p>
+      <table className="w-full mt-1 text-xs text-gray-300">
+        <thead className="text-gray-400 text-left">
+          <tr>
+            <th className="py-1 font-medium">Stage</th>
+            <th className="py-1 font-medium">Model</th>
+            <th className="py-1 font-medium w-24">Temperature</th>
+            <th className="py-1 font-medium w-28">Max tokens</th>
+          </tr>
+        </thead>
+        <tbody>
+          {STAGES.map(stage => (
+            <tr key={stage}>
+              <td className="py-1 pr-2 whitespace-nowrap">{STAGE_LABELS[stage]}</td>
+              <td className="py-1 pr-2">
+                <input
+                  type="text"
+                  aria-label={`${STAGE_LABELS[stage]} model`}
+                  value={value[stage].model}
+                  onChange={(e) => update(stage, 'model', e.target.value)}
+                  placeholder="Default"
+                  className={inputClass}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  aria-label={`${STAGE_LABELS[stage]} temperature`}
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={value[stage].temperature}
+                  onChange={(e) => update(stage, 'temperature', e.target.value)}
+                  className={inputClass}
+                />
+              </td>
+              <td className="py-1">
+                <input
+                  type="number"
+                  aria-label={`${STAGE_LABELS[stage]} max output tokens`}
+                  min={1}
+                  value={value[stage].maxOutputTokens}
+                  onChange={(e) => update(stage, 'maxOutputTokens', e.target.value)}
+                  className={inputClass}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-400 mt-1">
+        Overrides the model above for individual steps, e.g. a stronger model for abstractions and ordering and a cheaper one for chapters. Model names must be valid for the provider the stage runs on.
+      </p>
+    </div>
+  );
+};
+
+export default StageModelOptions;
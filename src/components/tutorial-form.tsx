@@ -2,9 +2,79 @@
 'use client'; // This component interacts with browser APIs (fetch, File)
 
 import React, { useState, useRef, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
 import LoadingSpinner from './loading-spinner';
 import ErrorMessage from './error-message';
+import ProgressTimeline from './progress-timeline';
+import UsageSummary from './usage-summary';
+import ChapterRegenerator from './chapter-regenerator';
+import PlanReview from './plan-review';
+import FilePreview from './file-preview';
+import ExportLinks from './export-links';
+import StageModelOptions, { EMPTY_STAGE_MODEL_INPUTS, fromStageOverrides, StageModelInputs, toStageOverrides } from './stage-model-options';
 import { DEFAULT_INCLUDE_PATTERNS, DEFAULT_EXCLUDE_PATTERNS, DEFAULT_MAX_FILE_SIZE } from '@/lib/patterns'; // Import defaults
+import { DryRunResult, GenerationJob, GenerationSettings } from '@/lib/types';
+
+const POLL_INTERVAL_MS = 2000;
+
+// Extracts a readable error from a non-OK API response (JSON or otherwise)
+async function readErrorMessage(response: Response): Promise<string> {
+  let errorMessage = `HTTP error! Status: ${response.status}`;
+  try {
+    // Try to parse as JSON, but have fallback if it's not valid JSON
+    const contentType = response.headers.get('content-type');
+    if (contentType && contentType.includes('application/json')) {
+      const errorData = await response.json();
+      errorMessage = errorData.error || errorMessage;
+    } else {
+      // Not JSON, just get text
+      const errorText = await response.text();
+      console.error("Non-JSON error response:", errorText.substring(0, 500));
+    }
+  } catch (parseError) {
+    console.error("Error parsing error response:", parseError);
+  }
+  return errorMessage;
+}
+
+// Streams job updates over SSE; falls back to polling if the stream breaks before the job finishes
+function watchJob(jobId: string, onUpdate: (job: GenerationJob) => void): Promise<GenerationJob> {
+  if (typeof EventSource === 'undefined') {
+    return waitForJob(jobId, onUpdate);
+  }
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    source.addEventListener('job', (event) => {
+      const job = JSON.parse((event as MessageEvent).data) as GenerationJob;
+      onUpdate(job);
+      if (job.status === 'completed' || job.status === 'partial' || job.status === 'failed' || job.status === 'cancelled') {
+        source.close();
+        resolve(job);
+      }
+    });
+    source.onerror = () => {
+      console.warn("Progress stream interrupted, falling back to polling.");
+      source.close();
+      waitForJob(jobId, onUpdate).then(resolve, reject);
+    };
+  });
+}
+
+// Polls the job until it completes, fails or is cancelled, reporting each status along the way
+async function waitForJob(jobId: string, onUpdate: (job: GenerationJob) => void): Promise<GenerationJob> {
+  while (true) {
+    const response = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
+    }
+    const { job } = await response.json() as { job: GenerationJob };
+    onUpdate(job);
+    if (job.status === 'completed' || job.status === 'partial' || job.status === 'failed' || job.status === 'cancelled') {
+      return job;
+    }
+    await new Promise(res => setTimeout(res, POLL_INTERVAL_MS));
+  }
+}
 
 const TutorialForm: React.FC = () => {
   const [sourceType, setSourceType] = useState<'repo' | 'upload'>('repo');
@@ -17,12 +87,35 @@ const TutorialForm: React.FC = () => {
   const [excludePatterns, setExcludePatterns] = useState('');
   const [maxFileSize, setMaxFileSize] = useState<number | string>('');
   const [language, setLanguage] = useState('english');
+  const [llmProvider, setLlmProvider] = useState(''); // Empty = server default (LLM_PROVIDER)
+  const [llmModel, setLlmModel] = useState('');
+  const [contextTokenBudget, setContextTokenBudget] = useState(''); // Empty = derived from the provider's context window
+  const [discoveryMode, setDiscoveryMode] = useState(''); // Empty = server default (auto)
+  const [chapterConcurrency, setChapterConcurrency] = useState(''); // Empty = server default (CHAPTER_CONCURRENCY)
+  const [stageModels, setStageModels] = useState<StageModelInputs>(EMPTY_STAGE_MODEL_INPUTS); // Empty fields = server routing
+  const [reviewPlan, setReviewPlan] = useState(false); // Pause after ordering to edit the plan
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [downloadFilename, setDownloadFilename] = useState<string | null>(null);
+  const [jobStatus, setJobStatus] = useState<GenerationJob | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const activeJobIdRef = useRef<string | null>(null); // Job to cancel on Cancel or when the page is closed
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<DryRunResult | null>(null);
+  const searchParams = useSearchParams();
+  const [reusedFrom, setReusedFrom] = useState<GenerationJob | null>(null); // Library "Use these settings"
   
+  // Closing or leaving the page stops the running job; nobody would be left to download it
+  useEffect(() => {
+    const cancelOnExit = () => {
+      if (activeJobIdRef.current) navigator.sendBeacon(`/api/jobs/${activeJobIdRef.current}/cancel`);
+    };
+    window.addEventListener('pagehide', cancelOnExit);
+    return () => window.removeEventListener('pagehide', cancelOnExit);
+  }, []);
+
   // Safely initialize state values after component mounts to prevent hydration issues
   useEffect(() => {
     setIncludePatterns(DEFAULT_INCLUDE_PATTERNS.join(', '));
@@ -30,6 +123,43 @@ const TutorialForm: React.FC = () => {
     setMaxFileSize(DEFAULT_MAX_FILE_SIZE);
   }, []);
 
+  // ?from=<job id> prefills the form with a past generation's settings (the token and zip aren't stored)
+  const fromJobId = searchParams.get('from');
+  useEffect(() => {
+    if (!fromJobId) return;
+    const applySettings = (settings: GenerationSettings) => {
+      setSourceType(settings.sourceType);
+      setRepoUrl(settings.repoUrl || '');
+      setProjectName(settings.projectName || '');
+      if (settings.includePatterns?.length) setIncludePatterns(settings.includePatterns.join(', '));
+      if (settings.excludePatterns?.length) setExcludePatterns(settings.excludePatterns.join(', '));
+      if (settings.maxFileSize) setMaxFileSize(settings.maxFileSize);
+      setLanguage(settings.language || 'english');
+      setLlmProvider(settings.llmProvider || '');
+      setLlmModel(settings.llmModel || '');
+      setContextTokenBudget(settings.contextTokenBudget ? String(settings.contextTokenBudget) : '');
+      setDiscoveryMode(settings.discoveryMode || '');
+      setChapterConcurrency(settings.chapterConcurrency ? String(settings.chapterConcurrency) : '');
+      setStageModels(fromStageOverrides(settings.llmStages));
+      setReviewPlan(Boolean(settings.reviewPlan));
+    };
+    (async () => {
+      try {
+        const response = await fetch(`/api/jobs/${fromJobId}`, { cache: 'no-store' });
+        if (!response.ok) {
+          throw new Error(await readErrorMessage(response));
+        }
+        const { job } = await response.json() as { job: GenerationJob };
+        if (!job.settings) throw new Error("That generation has no saved settings.");
+        applySettings(job.settings);
+        setReusedFrom(job);
+      } catch (err: any) {
+        console.error("Loading saved settings failed:", err);
+        setError(`Couldn't load the saved settings: ${err.message}`);
+      }
+    })();
+  }, [fromJobId]);
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -46,25 +176,15 @@ const TutorialForm: React.FC = () => {
     }
   };
 
-  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    setIsLoading(true);
-    setError(null);
-    setDownloadUrl(null); // Clear previous download link
-    setDownloadFilename(null);
-
-    // Basic Validation
-    if (sourceType === 'repo' && !repoUrl) {
-      setError("Please enter a GitHub repository URL.");
-      setIsLoading(false);
-      return;
-    }
-    if (sourceType === 'upload' && !uploadedFile) {
-      setError("Please upload a ZIP file.");
-      setIsLoading(false);
-      return;
-    }
+  // Basic Validation shared by generate and preview; returns an error message or null
+  const validateSource = (): string | null => {
+    if (sourceType === 'repo' && !repoUrl) return "Please enter a GitHub repository URL.";
+    if (sourceType === 'upload' && !uploadedFile) return "Please upload a ZIP file.";
+    return null;
+  };
 
+  // Same fields for /api/generate-tutorial and /api/dry-run
+  const buildFormData = (): FormData => {
     const formData = new FormData();
     formData.append('sourceType', sourceType);
     if (sourceType === 'repo' && repoUrl) formData.append('repoUrl', repoUrl);
@@ -75,6 +195,59 @@ const TutorialForm: React.FC = () => {
     if (excludePatterns) formData.append('excludePatterns', excludePatterns); // Send as comma-separated string
     if (maxFileSize) formData.append('maxFileSize', maxFileSize.toString());
     if (language) formData.append('language', language);
+    if (llmProvider) formData.append('llmProvider', llmProvider);
+    if (llmModel) formData.append('llmModel', llmModel.trim());
+    if (contextTokenBudget) formData.append('contextTokenBudget', contextTokenBudget);
+    if (discoveryMode) formData.append('discoveryMode', discoveryMode);
+    if (chapterConcurrency) formData.append('chapterConcurrency', chapterConcurrency);
+    const stageOverrides = toStageOverrides(stageModels);
+    if (stageOverrides) formData.append('llmStages', JSON.stringify(stageOverrides));
+    if (reviewPlan) formData.append('reviewPlan', 'true');
+    return formData;
+  };
+
+  // Crawls with the current settings and shows what would be sent, without calling the LLM
+  const handlePreview = async () => {
+    setError(null);
+    setPreview(null);
+    const validationError = validateSource();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      const response = await fetch('/api/dry-run', { method: 'POST', body: buildFormData() });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+      const { success: _success, ...result } = await response.json() as DryRunResult & { success: boolean };
+      setPreview(result);
+    } catch (err: any) {
+      console.error("Preview error:", err);
+      setError(err.message || 'An unexpected error occurred.');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setDownloadUrl(null); // Clear previous download link
+    setDownloadFilename(null);
+    setJobStatus(null);
+
+    const validationError = validateSource();
+    if (validationError) {
+      setError(validationError);
+      setIsLoading(false);
+      return;
+    }
+
+    const formData = buildFormData();
 
     console.log("Submitting form...");
     try {
@@ -84,69 +257,62 @@ const TutorialForm: React.FC = () => {
       });
 
       console.log("Response status:", response.status);
-      
+
       if (!response.ok) {
-        // Handle non-OK responses more carefully
-        let errorMessage = `HTTP error! Status: ${response.status}`;
-        try {
-          // Try to parse as JSON, but have fallback if it's not valid JSON
-          const contentType = response.headers.get('content-type');
-          console.log("Content-Type:", contentType);
-          
-          if (contentType && contentType.includes('application/json')) {
-            const errorData = await response.json();
-            errorMessage = errorData.error || errorMessage;
-          } else {
-            // Not JSON, just get text
-            const errorText = await response.text();
-            console.error("Non-JSON error response:", errorText.substring(0, 500));
-          }
-        } catch (parseError) {
-          console.error("Error parsing error response:", parseError);
-        }
-        throw new Error(errorMessage);
+        throw new Error(await readErrorMessage(response));
       }
 
-      // Handle successful response (ZIP file)
-      const blob = await response.blob();
-      const contentDisposition = response.headers.get('content-disposition');
-      let filename = "tutorial.zip"; // Default filename
-        if (contentDisposition) {
-            const filenameMatch = contentDisposition.match(/filename="?(.+)"?/i);
-            if (filenameMatch && filenameMatch.length > 1) {
-                filename = filenameMatch[1];
-            }
-        }
+      // The server queues a job and returns immediately; follow its progress until the zip is ready
+      const { jobId } = await response.json() as { jobId: string };
+      activeJobIdRef.current = jobId;
+      const job = await watchJob(jobId, setJobStatus);
 
-      const url = window.URL.createObjectURL(blob);
-      setDownloadUrl(url);
-      setDownloadFilename(filename);
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Tutorial generation failed.');
+      }
+      if (job.status === 'cancelled') {
+        return; // The timeline shows where it stopped
+      }
+
+      setDownloadUrl(`/api/jobs/${jobId}/download`);
+      setDownloadFilename(job.fileName || "tutorial.zip");
 
     } catch (err: any) {
         console.error("Form submission error:", err);
         setError(err.message || 'An unexpected error occurred.');
-        // Clean up any potentially created blob URL if error occurs after creation
-        if (downloadUrl) {
-             window.URL.revokeObjectURL(downloadUrl);
-             setDownloadUrl(null);
-             setDownloadFilename(null);
-        }
     } finally {
+      activeJobIdRef.current = null;
       setIsLoading(false);
+      setIsCancelling(false);
     }
   };
 
-  // Clean up blob URL on component unmount
-  React.useEffect(() => {
-      return () => {
-          if (downloadUrl) {
-              window.URL.revokeObjectURL(downloadUrl);
-          }
-      };
-  }, [downloadUrl]);
+  const handleCancel = async () => {
+    const jobId = activeJobIdRef.current;
+    if (!jobId) return;
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/cancel`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+      // watchJob resolves once the job reports 'cancelled'
+    } catch (err: any) {
+      console.error("Cancel error:", err);
+      setError(err.message || 'Failed to cancel the generation.');
+      setIsCancelling(false);
+    }
+  };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6 p-6 bg-gray-800 rounded-lg shadow-md max-w-2xl mx-auto border border-gray-700">
+      {reusedFrom && (
+        <p className="text-xs text-gray-400 border border-gray-600 rounded-md px-3 py-2">
+          Settings from {reusedFrom.projectName || reusedFrom.source} ({new Date(reusedFrom.createdAt).toLocaleString()}).
+          {reusedFrom.settings?.sourceType === 'upload' ? ` Upload ${reusedFrom.source} again to generate.` : ''}
+          {' '}A GitHub token isn&apos;t saved; enter it again if the repository needs one.
+        </p>
+      )}
       <h2 className="text-2xl font-semibold text-gray-200 mb-4">Generate Codebase Tutorial</h2>
 
       {/* Source Type Selection - Button Style */}
@@ -336,12 +502,116 @@ const TutorialForm: React.FC = () => {
                         Maximum file size to include in the analysis (in KB)
                     </p>
                 </div>
+
+                <div>
+                    <label htmlFor="llmProvider" className="block text-sm font-medium text-gray-300">
+                        LLM Provider
+                    </label>
+                    <select
+                        id="llmProvider"
+                        value={llmProvider}
+                        onChange={(e) => setLlmProvider(e.target.value)}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-600 bg-gray-700 rounded-md shadow-sm focus:outline-none focus:ring-purple-500 focus:border-purple-500 text-white sm:text-sm"
+                    >
+                        <option value="">Server default</option>
+                        <option value="gemini">Google Gemini</option>
+                        <option value="openai">OpenAI-compatible</option>
+                        <option value="ollama">Ollama</option>
+                    </select>
+                </div>
+
+                <div>
+                    <label htmlFor="llmModel" className="block text-sm font-medium text-gray-300">
+                        Model (Optional)
+                    </label>
+                    <input
+                        type="text"
+                        id="llmModel"
+                        value={llmModel}
+                        onChange={(e) => setLlmModel(e.target.value)}
+                        placeholder="Defaults to the provider's configured model"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-600 bg-gray-700 rounded-md shadow-sm focus:outline-none focus:ring-purple-500 focus:border-purple-500 text-white sm:text-sm"
+                    />
+                    <p className="text-xs text-gray-400 mt-1">
+                        e.g., gemini-1.5-pro, gpt-4o-mini, llama3.1
+                    </p>
+                </div>
+
+                <StageModelOptions value={stageModels} onChange={setStageModels} />
+
+                <div>
+                    <label htmlFor="contextTokenBudget" className="block text-sm font-medium text-gray-300">
+                        Context Budget (tokens, Optional)
+                    </label>
+                    <input
+                        type="number"
+                        id="contextTokenBudget"
+                        min={1}
+                        value={contextTokenBudget}
+                        onChange={(e) => setContextTokenBudget(e.target.value)}
+                        placeholder="Defaults to a share of the model's context window"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-600 bg-gray-700 rounded-md shadow-sm focus:outline-none focus:ring-purple-500 focus:border-purple-500 text-white sm:text-sm"
+                    />
+                    <p className="text-xs text-gray-400 mt-1">
+                        Max tokens of file content sent to find abstractions. Files that don&apos;t fit are outlined or listed by name.
+                    </p>
+                </div>
+
+                <div>
+                    <label htmlFor="discoveryMode" className="block text-sm font-medium text-gray-300">
+                        Abstraction Discovery
+                    </label>
+                    <select
+                        id="discoveryMode"
+                        value={discoveryMode}
+                        onChange={(e) => setDiscoveryMode(e.target.value)}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-600 bg-gray-700 rounded-md shadow-sm focus:outline-none focus:ring-purple-500 focus:border-purple-500 text-white sm:text-sm"
+                    >
+                        <option value="">Auto (map-reduce when over the context budget)</option>
+                        <option value="single">Single prompt</option>
+                        <option value="map-reduce">Map-reduce by directory</option>
+                    </select>
+                </div>
+
+                <div>
+                    <label htmlFor="chapterConcurrency" className="block text-sm font-medium text-gray-300">
+                        Chapters Written in Parallel (Optional)
+                    </label>
+                    <input
+                        type="number"
+                        id="chapterConcurrency"
+                        min={1}
+                        value={chapterConcurrency}
+                        onChange={(e) => setChapterConcurrency(e.target.value)}
+                        placeholder="Server default (3)"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-600 bg-gray-700 rounded-md shadow-sm focus:outline-none focus:ring-purple-500 focus:border-purple-500 text-white sm:text-sm"
+                    />
+                    <p className="text-xs text-gray-400 mt-1">
+                        1 writes chapters one by one, each building on summaries of the chapters before it (slower, more connected).
+                    </p>
+                </div>
+
+                <div>
+                    <label className="inline-flex items-center gap-2 text-sm font-medium text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={reviewPlan}
+                            onChange={(e) => setReviewPlan(e.target.checked)}
+                            className="rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+                        />
+                        Review the plan before writing chapters
+                    </label>
+                    <p className="text-xs text-gray-400 mt-1">
+                        Pauses after the chapter order is chosen so you can edit the abstractions, their files and the order.
+                    </p>
+                </div>
             </div>
        </details>
 
       {/* Action Buttons */}
       <div className="mt-6 flex items-center justify-between space-x-4">
         {downloadUrl && downloadFilename ? (
+          <>
           <a
             href={downloadUrl}
             download={downloadFilename}
@@ -349,17 +619,90 @@ const TutorialForm: React.FC = () => {
           >
             Download Tutorial
           </a>
+          {jobStatus && (
+            <a
+              href={`/tutorials/${jobStatus.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-block py-2 px-4 text-center text-gray-200 font-medium rounded-md border border-gray-500 hover:bg-gray-700 transition-colors whitespace-nowrap"
+            >
+              View Tutorial
+            </a>
+          )}
+          </>
         ) : (
+          <>
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={isLoading || isPreviewing}
+            className="inline-block py-2 px-4 text-gray-200 font-medium rounded-md border border-gray-500 hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            {isPreviewing ? <LoadingSpinner message="Crawling..." /> : 'Preview Files'}
+          </button>
           <button
             type="submit"
             disabled={isLoading}
             className="inline-block w-full py-2 px-4 text-white font-medium rounded-md shadow transition-colors bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isLoading ? <LoadingSpinner /> : 'Generate Tutorial'}
+            {isLoading ? <LoadingSpinner message={jobStatus?.message} /> : 'Generate Tutorial'}
           </button>
+          {isLoading && (
+            <button
+              type="button"
+              onClick={handleCancel}
+              disabled={isCancelling}
+              className="inline-block py-2 px-4 text-red-300 font-medium rounded-md border border-red-500 hover:bg-red-900/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+            >
+              {isCancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
+          )}
+          </>
         )}
       </div>
 
+      {/* Other formats of the finished tutorial, built from the same Markdown */}
+      {downloadUrl && jobStatus && (
+        <p className="text-xs text-gray-400 space-x-3">
+          <span>Also export as:</span>
+          <ExportLinks jobId={jobStatus.id} />
+        </p>
+      )}
+
+      {/* Paused for review: edit the plan, then resume to write the chapters */}
+      {jobStatus?.status === 'awaiting_review' && jobStatus.plan && (
+        <PlanReview key={jobStatus.id} jobId={jobStatus.id} plan={jobStatus.plan} onSubmitted={setJobStatus} />
+      )}
+
+      {/* Dry-run result: files that would be sent and the estimated prompt size */}
+      {preview && !jobStatus && <FilePreview preview={preview} />}
+
+      {/* Partial success: the zip has placeholders for these chapters */}
+      {downloadUrl && jobStatus?.status === 'partial' && jobStatus.failedChapters && (
+        <div className="border border-yellow-600 bg-yellow-900/20 rounded-md p-3 text-sm text-yellow-200 space-y-1">
+          <p className="font-medium">
+            {jobStatus.failedChapters.length} {jobStatus.failedChapters.length === 1 ? 'chapter' : 'chapters'} could not be generated and {jobStatus.failedChapters.length === 1 ? 'is a placeholder' : 'are placeholders'} in the download:
+          </p>
+          <ul className="list-disc list-inside text-xs text-yellow-300">
+            {jobStatus.failedChapters.map(chapter => (
+              <li key={chapter.num} className="truncate" title={chapter.error}>
+                Chapter {chapter.num}: {chapter.name} ({chapter.error})
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-yellow-400">Regenerate them below, or generate again with the same settings; finished chapters come from the cache.</p>
+        </div>
+      )}
+
+      {/* Rewrite single chapters of the finished tutorial, optionally with feedback */}
+      {downloadUrl && jobStatus && <ChapterRegenerator key={jobStatus.id} job={jobStatus} onUpdated={setJobStatus} />}
+
+      {/* Token usage / cost of the finished run */}
+      {downloadUrl && jobStatus?.report && <UsageSummary report={jobStatus.report} />}
+
+      {/* Live progress (stays visible after a failure to show which step broke) */}
+      {jobStatus && <ProgressTimeline job={jobStatus} />}
+
       {/* Error display */}
       {error && <ErrorMessage message={error} />}
     </form>
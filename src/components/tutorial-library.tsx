@@ -0,0 +1,132 @@
+// app/(components)/tutorial-library.tsx
+'use client'; // Loads and deletes jobs through the API
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import LoadingSpinner from './loading-spinner';
+import ErrorMessage from './error-message';
+import ExportLinks from './export-links';
+import { JobStatus, JobSummary } from '@/lib/types';
+import { formatUsd } from '@/lib/usage';
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'border-gray-500 text-gray-300',
+  running: 'border-purple-500 text-purple-300',
+  awaiting_review: 'border-purple-500 text-purple-300',
+  completed: 'border-green-600 text-green-300',
+  partial: 'border-yellow-600 text-yellow-300',
+  failed: 'border-red-600 text-red-300',
+  cancelled: 'border-gray-500 text-gray-400',
+};
+
+// Model the chapters were written with; the other stages may differ (see the report)
+function chapterModel(job: JobSummary): string {
+  const resolved = job.report?.models?.chapters;
+  if (resolved) return `${resolved.provider}/${resolved.model}`;
+  const { llmProvider, llmModel } = job.settings ?? {};
+  return [llmProvider, llmModel].filter(Boolean).join('/') || 'Server default';
+}
+
+function formatPatterns(patterns?: string[]): string {
+  if (!patterns || patterns.length === 0) return 'defaults';
+  return patterns.length > 3 ? `${patterns.slice(0, 3).join(', ')} +${patterns.length - 3}` : patterns.join(', ');
+}
+
+// Past generations: view, re-download, reuse settings or delete
+const TutorialLibrary: React.FC = () => {
+  const [jobs, setJobs] = useState<JobSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const response = await fetch('/api/jobs', { cache: 'no-store' });
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !data?.jobs) {
+          throw new Error(data?.error || `Loading the library failed with status ${response.status}`);
+        }
+        setJobs(data.jobs);
+      } catch (err: any) {
+        console.error("Library load error:", err);
+        setError(err.message || 'Failed to load the library.');
+      }
+    })();
+  }, []);
+
+  const handleDelete = async (job: JobSummary) => {
+    if (!window.confirm(`Delete "${job.projectName || job.source}" and its tutorial? This can't be undone.`)) return;
+    setDeleting(job.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/jobs/${job.id}`, { method: 'DELETE' });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || `Deleting failed with status ${response.status}`);
+      }
+      setJobs(current => current?.filter(j => j.id !== job.id) ?? null);
+    } catch (err: any) {
+      console.error("Delete error:", err);
+      setError(err.message || 'Failed to delete the tutorial.');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (!jobs) return error ? <ErrorMessage message={error} /> : <LoadingSpinner message="Loading library..." />;
+
+  return (
+    <div className="space-y-3">
+      {error && <ErrorMessage message={error} />}
+      {jobs.length === 0 && (
+        <p className="text-sm text-gray-400">
+          No tutorials yet. <Link href="/" className="text-blue-400 hover:underline">Generate one</Link>.
+        </p>
+      )}
+      {jobs.map(job => {
+        const finished = job.status === 'completed' || job.status === 'partial';
+        return (
+          <div key={job.id} className="border border-gray-600 rounded-md p-3 text-sm text-gray-300">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-100 truncate">{job.projectName || job.source}</p>
+                <p className="text-xs text-gray-400 truncate" title={job.source}>{job.source}</p>
+              </div>
+              <span className={`px-2 py-0.5 text-xs rounded border whitespace-nowrap ${STATUS_STYLES[job.status]}`}>
+                {job.status.replace('_', ' ')}
+              </span>
+            </div>
+            <dl className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-1 text-xs">
+              <div><dt className="text-gray-500">Created</dt><dd>{new Date(job.createdAt).toLocaleString()}</dd></div>
+              <div><dt className="text-gray-500">Language</dt><dd className="capitalize">{job.settings?.language || 'english'}</dd></div>
+              <div className="min-w-0"><dt className="text-gray-500">Model</dt><dd className="truncate">{chapterModel(job)}</dd></div>
+              <div>
+                <dt className="text-gray-500">Chapters / cost</dt>
+                <dd>{job.chapters ? job.chapters.length : '—'} / {job.report ? formatUsd(job.report.totals.estimatedCostUsd) : '—'}</dd>
+              </div>
+              <div className="col-span-2 min-w-0"><dt className="text-gray-500">Include</dt><dd className="truncate font-mono">{formatPatterns(job.settings?.includePatterns)}</dd></div>
+              <div className="col-span-2 min-w-0"><dt className="text-gray-500">Exclude</dt><dd className="truncate font-mono">{formatPatterns(job.settings?.excludePatterns)}</dd></div>
+            </dl>
+            {job.status === 'failed' && job.error && <p className="mt-2 text-xs text-red-300 truncate" title={job.error}>{job.error}</p>}
+            <div className="mt-3 flex flex-wrap gap-3 text-xs">
+              {finished && <Link href={`/tutorials/${job.id}`} className="text-blue-400 hover:underline">View</Link>}
+              {finished && <a href={`/api/jobs/${job.id}/download`} className="text-blue-400 hover:underline">Download</a>}
+              {finished && <ExportLinks jobId={job.id} />}
+              {job.settings && <Link href={`/?from=${job.id}`} className="text-blue-400 hover:underline">Use these settings</Link>}
+              <button
+                type="button"
+                onClick={() => handleDelete(job)}
+                disabled={deleting === job.id || job.status === 'queued' || job.status === 'running' || job.status === 'awaiting_review'}
+                className="text-red-300 hover:underline disabled:opacity-40 disabled:no-underline disabled:cursor-not-allowed"
+              >
+                {deleting === job.id ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TutorialLibrary;
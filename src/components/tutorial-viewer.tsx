@@ -0,0 +1,124 @@
+// app/(components)/tutorial-viewer.tsx
+'use client'; // Fetches the tutorial and follows the URL hash
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import LoadingSpinner from './loading-spinner';
+import ErrorMessage from './error-message';
+import MarkdownView from './markdown-view';
+import ExportLinks from './export-links';
+import { FailedChapter, TutorialContent } from '@/lib/types';
+
+interface TutorialViewerProps {
+  jobId: string;
+}
+
+const INDEX_FILE = 'index.md';
+
+// The page to show, from a hash like "#02_Task_Store.md"; a malformed hash shows the overview
+function fileFromHash(): string {
+  try {
+    return decodeURIComponent(window.location.hash.replace(/^#/, '')) || INDEX_FILE;
+  } catch {
+    return INDEX_FILE;
+  }
+}
+
+// Reads a finished tutorial in the browser: index.md and the chapters, with a chapter sidebar
+const TutorialViewer: React.FC<TutorialViewerProps> = ({ jobId }) => {
+  const [tutorial, setTutorial] = useState<TutorialContent | null>(null);
+  const [failedChapters, setFailedChapters] = useState<FailedChapter[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState(INDEX_FILE);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/tutorial`, { cache: 'no-store' });
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !data?.tutorial) {
+          throw new Error(data?.error || `Loading the tutorial failed with status ${response.status}`);
+        }
+        if (cancelled) return;
+        setTutorial(data.tutorial);
+        setFailedChapters(data.failedChapters || []);
+      } catch (err: any) {
+        console.error("Tutorial load error:", err);
+        if (!cancelled) setError(err.message || 'Failed to load the tutorial.');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [jobId]);
+
+  // The hash is the current page, so links, reloads and the back button all work
+  useEffect(() => {
+    const sync = () => setCurrent(fileFromHash());
+    sync();
+    window.addEventListener('hashchange', sync);
+    return () => window.removeEventListener('hashchange', sync);
+  }, []);
+
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+  }, [current]);
+
+  const files = useMemo(
+    () => new Set([INDEX_FILE, ...(tutorial?.chapters.map(c => c.filename) ?? [])]),
+    [tutorial]
+  );
+
+  if (error) return <ErrorMessage message={error} />;
+  if (!tutorial) return <LoadingSpinner message="Loading tutorial..." />;
+
+  const navigate = (filename: string) => { window.location.hash = filename; };
+  const failedNums = new Set(failedChapters.map(c => c.num));
+  const chapterPos = tutorial.chapters.findIndex(c => c.filename === current);
+  const page = chapterPos >= 0 ? tutorial.chapters[chapterPos].content : current === INDEX_FILE ? tutorial.index : null;
+  const previous = chapterPos > 0 ? tutorial.chapters[chapterPos - 1] : null;
+  const next = chapterPos >= 0 ? tutorial.chapters[chapterPos + 1] : tutorial.chapters[0];
+
+  const navLinkClass = (active: boolean) =>
+    `block px-2 py-1 rounded text-sm truncate ${active ? 'bg-purple-900/50 text-white' : 'text-gray-300 hover:bg-gray-800'}`;
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <nav className="md:w-64 flex-shrink-0 md:sticky md:top-6 md:self-start space-y-1" aria-label="Table of contents">
+        <p className="px-2 text-xs uppercase tracking-wide text-gray-500">{tutorial.projectName}</p>
+        <a href={`#${INDEX_FILE}`} className={navLinkClass(current === INDEX_FILE)}>Overview</a>
+        <ol className="space-y-1">
+          {tutorial.chapters.map(chapter => (
+            <li key={chapter.filename}>
+              <a href={`#${chapter.filename}`} className={navLinkClass(current === chapter.filename)} title={chapter.name}>
+                {chapter.num}. {chapter.name}{failedNums.has(chapter.num) ? ' ⚠️' : ''}
+              </a>
+            </li>
+          ))}
+        </ol>
+        <div className="pt-3 px-2 space-y-1 text-xs">
+          <a href={`/api/jobs/${jobId}/download`} className="block text-blue-400 hover:underline">Download zip</a>
+          <ExportLinks jobId={jobId} className="block text-blue-400 hover:underline" />
+          <Link href="/tutorials" className="block text-blue-400 hover:underline">Library</Link>
+          <Link href="/" className="block text-blue-400 hover:underline">New tutorial</Link>
+        </div>
+      </nav>
+
+      <article className="flex-1 min-w-0">
+        {page === null
+          ? <ErrorMessage message={`No page named ${current} in this tutorial.`} />
+          : <MarkdownView markdown={page} files={files} onNavigate={navigate} />}
+
+        {page !== null && (
+          <div className="mt-8 pt-4 border-t border-gray-700 flex justify-between gap-4 text-sm">
+            {chapterPos >= 0
+              ? <a href={`#${previous ? previous.filename : INDEX_FILE}`} className="text-blue-400 hover:underline">← {previous ? previous.name : 'Overview'}</a>
+              : <span />}
+            {next && <a href={`#${next.filename}`} className="text-blue-400 hover:underline text-right">{next.name} →</a>}
+          </div>
+        )}
+      </article>
+    </div>
+  );
+};
+
+export default TutorialViewer;
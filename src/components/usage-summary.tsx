@@ -0,0 +1,55 @@
+// app/(components)/usage-summary.tsx
+import React from 'react';
+import { GenerationReport } from '@/lib/types';
+import { formatUsd } from '@/lib/usage';
+
+interface UsageSummaryProps {
+  report: GenerationReport;
+}
+
+const UsageSummary: React.FC<UsageSummaryProps> = ({ report }) => {
+  const { totals } = report;
+  return (
+    <details className="group border border-gray-600 rounded-md p-3 text-sm text-gray-300">
+      <summary className="cursor-pointer group-open:mb-2">
+        {totals.totalTokens.toLocaleString()} tokens ({totals.promptTokens.toLocaleString()} prompt / {totals.completionTokens.toLocaleString()} completion)
+        {' · '}est. cost {formatUsd(totals.estimatedCostUsd)}
+        {totals.cachedCalls > 0 && ` · ${totals.cachedCalls} of ${totals.calls} calls cached`}
+      </summary>
+      <table className="w-full text-xs">
+        <thead className="text-gray-400 text-left">
+          <tr>
+            <th className="py-1 font-medium">Step</th>
+            <th className="py-1 font-medium text-right">Calls</th>
+            <th className="py-1 font-medium text-right">Prompt</th>
+            <th className="py-1 font-medium text-right">Completion</th>
+            <th className="py-1 font-medium text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.steps.map(step => (
+            <tr key={step.step} className="border-t border-gray-700">
+              <td className="py-1">
+                {step.step}
+                {step.retries > 0 && <span className="text-yellow-400"> ({step.retries} {step.retries === 1 ? 'retry' : 'retries'})</span>}
+              </td>
+              <td className="py-1 text-right tabular-nums">{step.calls}</td>
+              <td className="py-1 text-right tabular-nums">{step.promptTokens.toLocaleString()}</td>
+              <td className="py-1 text-right tabular-nums">{step.completionTokens.toLocaleString()}</td>
+              <td className="py-1 text-right tabular-nums">{formatUsd(step.estimatedCostUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {report.models && (
+        <p className="text-xs text-gray-400 mt-2">
+          Models:{' '}
+          {Object.entries(report.models).map(([stage, llm]) => `${stage} ${llm.provider}/${llm.model} (t=${llm.generationConfig.temperature})`).join(' · ')}
+        </p>
+      )}
+      <p className="text-xs text-gray-500 mt-2">Full details are in generation-report.json inside the zip.</p>
+    </details>
+  );
+};
+
+export default UsageSummary;
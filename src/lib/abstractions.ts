@@ -0,0 +1,223 @@
+// lib/abstractions.ts
+// Step 2 of the pipeline: identifying the core abstractions of the codebase.
+// Small repos are analyzed in a single prompt. Repos whose files don't fit the context budget
+// use map-reduce: directory batches each propose candidate abstractions (map), which one more
+// call merges and deduplicates into the final list (reduce). File indices are global throughout.
+import { Abstraction, AbstractionDiscoveryMode, FileData, ProgressUpdate } from './types';
+import { callLlmWithSchema, LlmRetryOptions } from './llm-retry';
+import { abstractionListSchema, mergedAbstractionListSchema } from './schemas';
+import { getBatchAbstractionsPrompt, getIdentifyAbstractionsPrompt, getMergeAbstractionsPrompt } from './prompts';
+import { buildBudgetedFilesContext } from './context-budget';
+import { formatFileListing } from './utils';
+import { estimateTokens } from './usage';
+
+export const ABSTRACTION_DISCOVERY_MODES: AbstractionDiscoveryMode[] = ['auto', 'single', 'map-reduce'];
+
+export interface AbstractionDiscoveryOptions {
+    projectName: string;
+    files: FileData[];
+    language: string;
+    budgetTokens: number; // Context budget for file contents, per call
+    mode?: AbstractionDiscoveryMode;
+    onProgress: (update: ProgressUpdate) => void;
+    retryOptions: (step: string) => LlmRetryOptions; // Retry reporting / usage recording for a usage-report step
+}
+
+export interface FileBatch {
+    label: string; // Directories covered, for prompts and progress
+    indices: number[]; // Global file indices, in path order
+}
+
+interface CandidateAbstraction {
+    name: string;
+    description: string;
+    files: number[];
+    batchLabel: string;
+}
+
+
+export function isAbstractionDiscoveryMode(mode: unknown): mode is AbstractionDiscoveryMode {
+    return typeof mode === 'string' && (ABSTRACTION_DISCOVERY_MODES as string[]).includes(mode);
+}
+
+// Schema output -> Abstraction, with deduplicated, sorted file indices
+function toAbstraction(item: { name: string; description: string }, fileIndices: number[]): Abstraction {
+    return { name: item.name, description: item.description, files: [...new Set(fileIndices)].sort((a, b) => a - b) };
+}
+
+function fileTokens(file: FileData): number {
+    return estimateTokens(file.path) + estimateTokens(file.content) + 10; // + section header
+}
+
+/**
+ * Splits files into batches of whole directories that fit `budgetTokens`. Directories that are too
+ * big on their own are split by subdirectory; files directly inside such a directory form their own
+ * group, chunked if needed (a single oversized file is outlined later). Adjacent small directories
+ * share a batch.
+ */
+export function batchFilesByDirectory(files: FileData[], budgetTokens: number): FileBatch[] {
+    const groups: FileBatch[] = [];
+    const split = (indices: number[], depth: number, dir: string) => {
+        const tokens = indices.reduce((sum, i) => sum + fileTokens(files[i]), 0);
+        if (tokens <= budgetTokens || indices.length === 1) {
+            groups.push({ label: dir || '(root)', indices });
+            return;
+        }
+        const direct: number[] = [];
+        const subdirs = new Map<string, number[]>();
+        for (const i of indices) {
+            const parts = files[i].path.split('/');
+            if (parts.length - 1 <= depth) {
+                direct.push(i);
+            } else {
+                const sub = parts.slice(0, depth + 1).join('/');
+                if (!subdirs.has(sub)) subdirs.set(sub, []);
+                subdirs.get(sub)!.push(i);
+            }
+        }
+        // Files directly in this directory, in path order, chunked to the budget
+        let chunk: number[] = [];
+        let chunkTokens = 0;
+        for (const i of direct) {
+            if (chunk.length > 0 && chunkTokens + fileTokens(files[i]) > budgetTokens) {
+                groups.push({ label: dir || '(root)', indices: chunk });
+                chunk = [];
+                chunkTokens = 0;
+            }
+            chunk.push(i);
+            chunkTokens += fileTokens(files[i]);
+        }
+        if (chunk.length > 0) groups.push({ label: dir || '(root)', indices: chunk });
+        for (const [sub, subIndices] of subdirs) split(subIndices, depth + 1, sub);
+    };
+    split(files.map((_, i) => i), 0, '');
+
+    // Pack adjacent groups (path order) into batches up to the budget
+    const batches: FileBatch[] = [];
+    let current: { labels: string[]; indices: number[]; tokens: number } | null = null;
+    for (const group of groups) {
+        const tokens = group.indices.reduce((sum, i) => sum + fileTokens(files[i]), 0);
+        if (current && current.tokens + tokens <= budgetTokens) {
+            if (!current.labels.includes(group.label)) current.labels.push(group.label);
+            current.indices.push(...group.indices);
+            current.tokens += tokens;
+            continue;
+        }
+        if (current) batches.push(toBatch(current));
+        current = { labels: [group.label], indices: [...group.indices], tokens };
+    }
+    if (current) batches.push(toBatch(current));
+    return batches;
+}
+
+function toBatch({ labels, indices }: { labels: string[]; indices: number[] }): FileBatch {
+    const shown = labels.slice(0, 5).join(', ');
+    return {
+        label: labels.length > 5 ? `${shown} and ${labels.length - 5} more directories` : shown,
+        indices: indices.sort((a, b) => a - b),
+    };
+}
+
+/**
+ * The mode that will actually run: the requested one (or ABSTRACTION_DISCOVERY_MODE), where
+ * 'auto' means map-reduce only when the files don't fit the context budget in full.
+ */
+export function resolveDiscoveryMode(requested: AbstractionDiscoveryMode | undefined, overBudget: boolean): 'single' | 'map-reduce' {
+    const envMode = process.env.ABSTRACTION_DISCOVERY_MODE;
+    const mode = requested || (isAbstractionDiscoveryMode(envMode) ? envMode : 'auto');
+    if (mode === 'auto') return overBudget ? 'map-reduce' : 'single';
+    return mode;
+}
+
+export async function identifyAbstractions(options: AbstractionDiscoveryOptions): Promise<{ success: boolean; data?: Abstraction[]; error?: string }> {
+    const { files, budgetTokens, onProgress } = options;
+
+    // Large repos don't fit the context window: rank files and outline/omit the ones that don't fit
+    const budgeted = buildBudgetedFilesContext(files, budgetTokens);
+    const overBudget = budgeted.stats.fullFiles < files.length;
+
+    if (resolveDiscoveryMode(options.mode, overBudget) === 'map-reduce') {
+        return identifyAbstractionsMapReduce(options);
+    }
+
+    if (overBudget) {
+        onProgress({
+            stage: 'abstractions',
+            message: `Context budget (${budgeted.stats.budgetTokens.toLocaleString()} tokens): ${budgeted.stats.fullFiles} files in full, ${budgeted.stats.outlinedFiles} outlined, ${budgeted.stats.omittedFiles} listed by name only.`
+        });
+    }
+    const fileListingForPrompt = formatFileListing(files);
+    const result = await callLlmWithSchema(
+        () => getIdentifyAbstractionsPrompt(options.projectName, budgeted.context, fileListingForPrompt, options.language),
+        abstractionListSchema(files.length),
+        options.retryOptions('identify')
+    );
+    if (!result.success || !result.data) return { success: false, error: result.error };
+    return { success: true, data: result.data.map(item => toAbstraction(item, item.file_indices)) };
+}
+
+async function identifyAbstractionsMapReduce(options: AbstractionDiscoveryOptions): Promise<{ success: boolean; data?: Abstraction[]; error?: string }> {
+    const { projectName, files, language, budgetTokens, onProgress, retryOptions } = options;
+    const batches = batchFilesByDirectory(files, budgetTokens);
+    console.log(`Map-reduce abstraction discovery: ${files.length} files in ${batches.length} batches.`);
+    onProgress({ stage: 'abstractions', message: `Repository exceeds the context budget; analyzing ${batches.length} directory batches separately...`, current: 0, total: batches.length });
+
+    // --- Map: candidates per batch; a failed batch is skipped rather than failing the run ---
+    const candidates: CandidateAbstraction[] = [];
+    const failedBatches: string[] = [];
+    for (const [b, batch] of batches.entries()) {
+        onProgress({ stage: 'abstractions', message: `Analyzing batch ${b + 1}/${batches.length}: ${batch.label}`, current: b, total: batches.length });
+        const batchFiles = batch.indices.map(i => files[i]);
+        const allowed = new Set(batch.indices);
+        const { context } = buildBudgetedFilesContext(batchFiles, budgetTokens, batch.indices);
+        const listing = formatFileListing(batchFiles, batch.indices);
+
+        const result = await callLlmWithSchema(
+            () => getBatchAbstractionsPrompt(projectName, batch.label, context, listing, language),
+            abstractionListSchema(files.length, idx => allowed.has(idx)),
+            retryOptions(`identify (batch ${b + 1}/${batches.length})`)
+        );
+        if (!result.success || !result.data) {
+            console.error(`Batch ${b + 1} (${batch.label}) failed: ${result.error}`);
+            failedBatches.push(batch.label);
+            continue;
+        }
+        for (const item of result.data) {
+            candidates.push({ ...toAbstraction({ name: item.name.trim(), description: item.description.trim() }, item.file_indices), batchLabel: batch.label });
+        }
+    }
+    onProgress({ stage: 'abstractions', message: `Collected ${candidates.length} candidate abstractions from ${batches.length - failedBatches.length}/${batches.length} batches.`, current: batches.length, total: batches.length });
+
+    if (candidates.length === 0) {
+        return { success: false, error: `No candidate abstractions found in any of the ${batches.length} batches.` };
+    }
+
+    // Same name in several batches is the same concept; fold those before asking the LLM
+    const byName = new Map<string, CandidateAbstraction>();
+    for (const candidate of candidates) {
+        const key = candidate.name.toLowerCase();
+        const existing = byName.get(key);
+        if (existing) {
+            existing.files = [...new Set([...existing.files, ...candidate.files])].sort((a, b) => a - b);
+            if (!existing.batchLabel.includes(candidate.batchLabel)) existing.batchLabel += `; ${candidate.batchLabel}`;
+        } else {
+            byName.set(key, { ...candidate });
+        }
+    }
+    const unique = [...byName.values()];
+
+    // --- Reduce: merge candidates into the final abstractions ---
+    onProgress({ stage: 'abstractions', message: `Merging ${unique.length} candidate abstractions...` });
+    const candidateListing = unique
+        .map((c, i) => `- ${i} # ${c.name} (from ${c.batchLabel}): ${c.description.replace(/\s+/g, ' ')}`)
+        .join('\n');
+
+    const merged = await callLlmWithSchema(
+        () => getMergeAbstractionsPrompt(projectName, candidateListing, language),
+        mergedAbstractionListSchema(unique.length),
+        retryOptions('identify (merge)')
+    );
+    if (!merged.success || !merged.data) return { success: false, error: merged.error };
+    // Global file indices, from the merged candidates
+    return { success: true, data: merged.data.map(item => toAbstraction(item, item.candidate_indices.flatMap(c => unique[c].files))) };
+}
@@ -0,0 +1,16 @@
+// lib/admin-auth.ts
+import { NextRequest, NextResponse } from 'next/server';
+
+// Callers must send `Authorization: Bearer <ADMIN_TOKEN>`. Without ADMIN_TOKEN the routes are
+// disabled: cached entries include prompts with repository source.
+// Returns the 401/403 response to send, or null when the request may proceed.
+export function checkAdminAuth(request: NextRequest): NextResponse | null {
+    const adminToken = process.env.ADMIN_TOKEN;
+    if (!adminToken) {
+        return NextResponse.json({ success: false, error: "Admin routes are disabled. Set ADMIN_TOKEN to enable them." }, { status: 403 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${adminToken}`) {
+        return NextResponse.json({ success: false, error: "Unauthorized." }, { status: 401 });
+    }
+    return null;
+}
@@ -0,0 +1,91 @@
+// lib/chapter-summaries.ts
+// Rolling context for chapter writing: after each chapter is written it is condensed into a short
+// structured summary, and later chapters receive those summaries rather than every earlier chapter
+// in full, so prompt size stays roughly constant however long the tutorial gets.
+// Chapters written concurrently get planned summaries (the abstraction descriptions) instead.
+import { ChapterInfo, ChapterSummary } from './types';
+import { callLlmWithSchema, LlmRetryOptions } from './llm-retry';
+import { getSummarizeChapterPrompt } from './prompts';
+import { chapterSummarySchema } from './schemas';
+
+const MAX_KEY_TERMS = 12;
+const FALLBACK_SUMMARY_LENGTH = 600;
+
+// Chapter files this chapter links to, e.g. "02_Task_Store.md"
+function extractChapterLinks(content: string, ownFilename: string): string[] {
+    const links = new Set<string>();
+    for (const match of content.matchAll(/\]\(([^)\s#]+\.md)(?:#[^)]*)?\)/g)) {
+        if (match[1] !== ownFilename) links.add(match[1]);
+    }
+    return [...links];
+}
+
+// Used when the LLM summary fails: the first paragraph of prose and the section headings
+function fallbackSummary(content: string): Pick<ChapterSummary, 'summary' | 'keyTerms'> {
+    const paragraphs = content.split(/\n\s*\n/).map(p => p.trim());
+    const prose = paragraphs.find(p => p && !p.startsWith('#') && !p.startsWith('```')) || '';
+    const headings = [...content.matchAll(/^##\s+(.+)$/gm)].map(m => m[1].trim());
+    return {
+        summary: prose.length > FALLBACK_SUMMARY_LENGTH ? `${prose.substring(0, FALLBACK_SUMMARY_LENGTH)}...` : prose,
+        keyTerms: headings.slice(0, MAX_KEY_TERMS).map(term => ({ term, meaning: 'Section of this chapter' })),
+    };
+}
+
+/**
+ * Condenses a written chapter. Never fails: if the LLM can't produce a valid summary, a
+ * heuristic one built from the chapter text is returned instead.
+ */
+export async function summarizeChapter(
+    projectName: string,
+    chapter: ChapterInfo,
+    content: string,
+    language: string,
+    retryOptions: LlmRetryOptions
+): Promise<ChapterSummary> {
+    const base = { num: chapter.num, name: chapter.name.trim(), filename: chapter.filename, links: extractChapterLinks(content, chapter.filename) };
+
+    const result = await callLlmWithSchema(
+        () => getSummarizeChapterPrompt(projectName, chapter.num, base.name, content, language),
+        chapterSummarySchema,
+        { maxRetries: 2, ...retryOptions }
+    );
+
+    if (!result.success || !result.data) {
+        console.warn(`Summarizing chapter ${chapter.num} failed, using a heuristic summary: ${result.error}`);
+        return { ...base, ...fallbackSummary(content) };
+    }
+    return {
+        ...base,
+        summary: result.data.summary.trim(),
+        keyTerms: (result.data.key_terms || []).slice(0, MAX_KEY_TERMS).map(k => ({ term: k.term.trim(), meaning: k.meaning.trim() })),
+    };
+}
+
+/**
+ * Stand-in summary for chapters written concurrently, where earlier chapters may not exist yet:
+ * what the chapter is planned to cover, from its abstraction's description.
+ */
+export function plannedChapterSummary(chapter: ChapterInfo, description: string): ChapterSummary {
+    return {
+        num: chapter.num,
+        name: chapter.name.trim(),
+        filename: chapter.filename,
+        summary: description.trim().replace(/\s+/g, ' '),
+        keyTerms: [],
+        links: [],
+    };
+}
+
+/**
+ * Renders summaries for the "Context from previous chapters" part of the write-chapter prompt.
+ */
+export function formatChapterSummaries(summaries: ChapterSummary[]): string {
+    return summaries.map(s => {
+        const lines = [`Chapter ${s.num}: [${s.name}](${s.filename})`, `Summary: ${s.summary}`];
+        if (s.keyTerms.length > 0) {
+            lines.push('Key terms introduced:', ...s.keyTerms.map(k => `- ${k.term}: ${k.meaning}`));
+        }
+        if (s.links.length > 0) lines.push(`Links to: ${s.links.join(', ')}`);
+        return lines.join('\n');
+    }).join('\n\n');
+}
@@ -0,0 +1,152 @@
+// lib/chapters.ts
+// Writing a chapter and rendering the Markdown files around it (placeholders for failed
+// chapters, the attribution footer, index.md). Shared by the pipeline and by regenerating a
+// single chapter of a finished tutorial, so both produce the same files and cross-links.
+import { Abstraction, ChapterInfo, ChapterSummary, FailedChapter, FileData, RelationshipData } from './types';
+import { callLlmWithRetry, LlmRetryOptions } from './llm-retry';
+import { formatChapterSummaries } from './chapter-summaries';
+import { getWriteChapterPrompt } from './prompts';
+import { checkMarkdownFences, getContentForIndices } from './utils';
+
+const ATTRIBUTION = `---\n\nGenerated by [AI Codebase Knowledge Builder](https://github.com/The-Pocket/Tutorial-Codebase-Knowledge)`; // Keep attribution in English
+
+export interface WriteChapterOptions {
+    projectName: string;
+    chapter: ChapterInfo;
+    abstraction: Abstraction;
+    chapterListing: string; // From formatChapterListing; the links chapters may use
+    previousChapters: ChapterSummary[];
+    files: FileData[]; // Indexed like the abstractions' file indices (may be sparse)
+    language: string;
+    feedback?: string; // Reader feedback when regenerating a chapter
+    retryOptions: LlmRetryOptions; // Reporting, usage recording, model routing, cache use
+}
+
+// "Num. [Name](filename)" per chapter, as shown to the model and in index.md
+export function formatChapterListing(chapters: ChapterInfo[]): string {
+    return chapters.map(info => `${info.num}. [${info.name}](${info.filename})`).join('\n');
+}
+
+/**
+ * Asks the LLM for one chapter's Markdown, given the abstraction's files as context.
+ * Responses without a closed code block or mermaid diagram are retried.
+ */
+export async function writeChapterMarkdown(options: WriteChapterOptions): Promise<{ success: boolean; data?: string; error?: string }> {
+    const { chapter, abstraction, files } = options;
+    const relatedFilesContentMap = getContentForIndices(files, abstraction.files || []);
+    const fileContextStr = Object.entries(relatedFilesContentMap)
+        .map(([idxPath, content]) => `--- File: ${idxPath.split('# ')[1] || idxPath} ---\n${content}`)
+        .join("\n\n");
+
+    return callLlmWithRetry<string>(
+        () => getWriteChapterPrompt(
+            options.projectName,
+            chapter.num,
+            chapter.name,
+            abstraction.description,
+            options.chapterListing,
+            formatChapterSummaries(options.previousChapters),
+            fileContextStr,
+            options.language,
+            options.feedback
+        ),
+        (text) => text, // Expect raw Markdown
+        (parsed) => {
+            // Basic validation: Check if it starts reasonably like markdown
+            if (typeof parsed !== 'string' || parsed.length < 10) return "Chapter content seems too short or invalid.";
+            // Check for expected heading (allow slight variations)
+            const headingRegex = new RegExp(`^#\\s*Chapter\\s+${chapter.num}[\\s:]*${chapter.name.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&')}`, 'i'); // Case-insensitive, flexible spacing/colon
+             if (!parsed.trim().match(headingRegex)) {
+                 console.warn(`Chapter ${chapter.num} missing or incorrect heading. Adding default.`);
+                 parsed = `# Chapter ${chapter.num}: ${chapter.name}\n\n${parsed.trim()}`;
+             }
+            // An unclosed fence would swallow the rest of the page, attribution included
+            const fenceProblem = checkMarkdownFences(parsed);
+            if (fenceProblem) return `${fenceProblem} Close every code block and mermaid diagram.`;
+            return true;
+        },
+        {
+            maxRetries: 3, // Retry chapter writing
+            useCache: true, // The cache is keyed on the full prompt, so rerunning after one failed chapter reuses the others
+            contentType: 'markdown',
+            ...options.retryOptions,
+        }
+    );
+}
+
+export function withAttribution(markdown: string): string {
+    return `${markdown.endsWith('\n\n') ? markdown : `${markdown}\n\n`}${ATTRIBUTION}`;
+}
+
+// Stands in for a chapter that failed: the error and how to get the real chapter
+export function chapterPlaceholder(chapter: FailedChapter): string {
+    const quotedError = chapter.error.split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+    return `# Chapter ${chapter.num}: ${chapter.name.trim()}
+
+> **This chapter could not be generated.**
+>
+${quotedError}
+
+To regenerate it, regenerate this chapter from the generation form, or run the generation again with the same repository and settings. Chapters that were written successfully are served from the LLM cache, so only the failed chapters are sent to the model again.
+`;
+}
+
+export interface IndexMarkdownOptions {
+    projectName: string;
+    abstractions: Abstraction[];
+    relationships: RelationshipData;
+    chapters: ChapterInfo[];
+    failedChapterNums: Set<number>; // Flagged as placeholders
+    source?: { repoUrl?: string; uploadName?: string };
+}
+
+// Flowchart of the abstractions and the relationships between them
+function buildMermaidDiagram(abstractions: Abstraction[], relationships: RelationshipData): string {
+    const mermaidLines = ["flowchart TD"];
+    abstractions.forEach((abstr, i) => {
+        const nodeId = `A${i}`;
+        const sanitizedName = (abstr.name || `Abstraction ${i}`).replace(/"/g, ''); // Sanitize
+        mermaidLines.push(`    ${nodeId}["${sanitizedName}"]`); // Node label
+    });
+
+    // Add safety check for relationships.details
+    if (relationships && relationships.details && Array.isArray(relationships.details)) {
+        relationships.details.forEach(rel => {
+            if (rel && typeof rel === 'object' && 'from' in rel && 'to' in rel) {
+                const fromNodeId = `A${rel.from}`;
+                const toNodeId = `A${rel.to}`;
+                let edgeLabel = (rel.label || '').replace(/"/g, '').replace(/\n/g, ' '); // Sanitize
+                if (edgeLabel.length > 30) edgeLabel = edgeLabel.substring(0, 27) + "...";
+                mermaidLines.push(`    ${fromNodeId} -- "${edgeLabel}" --> ${toNodeId}`); // Edge label
+            }
+        });
+    } else {
+        console.warn("No relationship details available for mermaid diagram");
+    }
+    return mermaidLines.join('\n');
+}
+
+export function buildIndexMarkdown(options: IndexMarkdownOptions): string {
+    const { projectName, relationships, chapters, failedChapterNums, source } = options;
+    let indexContent = `# Tutorial: ${projectName}\n\n`;
+    indexContent += `${relationships.summary}\n\n`; // Use potentially translated summary
+    if (source?.repoUrl) indexContent += `**Source Repository:** [${source.repoUrl}](${source.repoUrl})\n\n`;
+    else if (source?.uploadName) indexContent += `**Source:** Uploaded File (${source.uploadName})\n\n`;
+
+    indexContent += "## Core Concepts Diagram\n\n"; // Keep section header in English
+    indexContent += "```mermaid\n";
+    indexContent += buildMermaidDiagram(options.abstractions, relationships) + "\n";
+    indexContent += "```\n\n";
+    indexContent += `## Chapters\n\n`; // Keep section header in English
+    if (failedChapterNums.size > 0) {
+        indexContent += `> **Note:** ${failedChapterNums.size} of ${chapters.length} chapters could not be generated and contain placeholders (marked below). Regenerate them from the generation form or rerun the generation with the same settings.\n\n`;
+    }
+    // Same listing the chapters were written against, with failed chapters flagged
+    indexContent += chapters
+        .map(info => `${info.num}. [${info.name}](${info.filename})${failedChapterNums.has(info.num) ? ' ⚠️ *(generation failed — placeholder)*' : ''}`)
+        .join('\n');
+
+    // Add attribution to index
+    indexContent += `\n\n${ATTRIBUTION}`;
+    return indexContent;
+}
@@ -0,0 +1,215 @@
+// lib/context-budget.ts
+// Fits the file contents for the identify-abstractions prompt into a token budget.
+// Files are ranked by how much they tell the model about the codebase; the top ones go in
+// verbatim, the rest are reduced to an outline of their declarations (or just named) so the
+// prompt stays inside the model's context window. The "idx # path" listing is built separately
+// and always lists every file, so indices returned by the LLM stay valid.
+import path from 'path';
+import { ContextBudgetStats, FileData, LlmProvider } from './types';
+import { estimateTokens } from './usage';
+
+// Share of the provider's context window given to file contents when no budget is configured;
+// the rest covers the listing, instructions and the response.
+const DEFAULT_BUDGET_SHARE = 0.6;
+// Share of the budget the outline-everything pass may use before full files are added
+const OUTLINE_BUDGET_SHARE = 0.3;
+const MAX_OUTLINE_LINES = 60;
+const MAX_OUTLINE_LINE_LENGTH = 200;
+
+const MANIFEST_NAMES = new Set([
+    'package.json', 'pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt', 'Cargo.toml',
+    'go.mod', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'Gemfile', 'composer.json', 'Dockerfile',
+    'docker-compose.yml', 'docker-compose.yaml', 'Makefile',
+]);
+const ENTRY_POINT_STEMS = new Set(['index', 'main', 'app', 'server', 'cli', '__main__', '__init__', 'lib', 'mod']);
+const TEST_PATH = /(^|\/)(tests?|__tests__|spec)(\/|$)|[._-](test|spec)\.[^/]+$|(^|\/)test_[^/]+$/i;
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue'];
+const JS_IMPORT = /(?:import\s[^'"]*?from\s*|import\s*\(?\s*|require\s*\(\s*|export\s[^'"]*?from\s*)['"]([^'"]+)['"]/g;
+const PY_IMPORT = /^\s*(?:from\s+(\.*[\w.]*)\s+import|import\s+([\w.]+))/gm;
+
+// Lines worth keeping in an outline: declarations and headings
+const OUTLINE_LINE = [
+    /^\s*(?:export\s+(?:default\s+)?)?(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|class|interface|type|enum|def|struct|trait|impl|fn|func|module|namespace)\b/,
+    /^\s*(?:export\s+)?(?:const|let)\s+\w+\s*(?::[^=]+)?=\s*(?:async\s*)?(?:\([^)]*\)|\w+)\s*=>/,
+    /^\s*(?:public|private|protected|static)\s[\w<>\[\], ]*\w+\s*\(/,
+    /^#{1,3}\s+\S/,
+];
+
+export interface BudgetedContext {
+    context: string;
+    stats: ContextBudgetStats;
+}
+
+/**
+ * Token budget for file contents: the request's value, then `LLM_CONTEXT_TOKEN_BUDGET`,
+ * then a share of the provider's context window.
+ */
+export function resolveContextTokenBudget(provider: LlmProvider, requested?: number): number {
+    if (typeof requested === 'number' && requested > 0) return requested;
+    const fromEnv = Number(process.env.LLM_CONTEXT_TOKEN_BUDGET);
+    if (fromEnv > 0) return fromEnv;
+    return Math.floor(provider.contextWindow * DEFAULT_BUDGET_SHARE);
+}
+
+// Maps import specifiers to the indices of the files they refer to
+function resolveImports(file: FileData, pathIndex: Map<string, number>, suffixIndex: Map<string, number>): number[] {
+    const dir = path.posix.dirname(file.path);
+    const ext = path.posix.extname(file.path);
+    const targets: number[] = [];
+
+    if (JS_EXTENSIONS.includes(ext)) {
+        for (const match of file.content.matchAll(JS_IMPORT)) {
+            const spec = match[1];
+            if (!spec.startsWith('.')) continue; // Packages and path aliases aren't resolvable here
+            const base = path.posix.join(dir, spec);
+            const candidates = [base, ...JS_EXTENSIONS.map(e => base + e), ...JS_EXTENSIONS.map(e => `${base}/index${e}`)];
+            const hit = candidates.find(c => pathIndex.has(c));
+            if (hit) targets.push(pathIndex.get(hit)!);
+        }
+    } else if (ext === '.py' || ext === '.pyi') {
+        for (const match of file.content.matchAll(PY_IMPORT)) {
+            const spec = match[1] ?? match[2];
+            const dots = spec.match(/^\.*/)![0].length;
+            const modulePath = spec.slice(dots).replace(/\./g, '/');
+            if (dots > 0) {
+                // Relative import: one dot is the current package, each extra dot goes up a level
+                const base = path.posix.join(dir, ...Array(dots - 1).fill('..'), modulePath);
+                const hit = [`${base}.py`, `${base}/__init__.py`].find(c => pathIndex.has(c));
+                if (hit) targets.push(pathIndex.get(hit)!);
+            } else if (modulePath) {
+                // Absolute import: the package root is unknown, so match on the path suffix
+                const hit = [`${modulePath}.py`, `${modulePath}/__init__.py`].find(c => suffixIndex.has(c));
+                if (hit) targets.push(suffixIndex.get(hit)!);
+            }
+        }
+    }
+    return targets.filter(t => t !== pathIndex.get(file.path));
+}
+
+/**
+ * Ranks files from most to least useful for understanding the project: manifests and READMEs,
+ * entry points and files many others import come first; tests and deeply nested files sink.
+ * Returns file indices in rank order.
+ */
+export function rankFiles(files: FileData[]): number[] {
+    const pathIndex = new Map(files.map((f, i) => [f.path, i]));
+    const suffixIndex = new Map<string, number>();
+    files.forEach((f, i) => {
+        const parts = f.path.split('/');
+        for (let start = 0; start < parts.length; start++) {
+            const suffix = parts.slice(start).join('/');
+            if (!suffixIndex.has(suffix)) suffixIndex.set(suffix, i);
+        }
+    });
+
+    const inbound = new Array(files.length).fill(0);
+    files.forEach(file => {
+        for (const target of new Set(resolveImports(file, pathIndex, suffixIndex))) inbound[target]++;
+    });
+
+    const scores = files.map((file, i) => {
+        const name = path.posix.basename(file.path);
+        const stem = name.replace(/\.[^.]+$/, '');
+        const depth = file.path.split('/').length - 1;
+        let score = inbound[i] * 10 - depth * 2;
+        if (MANIFEST_NAMES.has(name)) score += 60;
+        if (/^readme/i.test(name)) score += depth === 0 ? 80 : 20;
+        if (ENTRY_POINT_STEMS.has(stem)) score += 40;
+        if (TEST_PATH.test(file.path)) score -= 50;
+        return score;
+    });
+
+    // Ties: smaller files first (cheaper to include whole), then original order
+    return files
+        .map((_, i) => i)
+        .sort((a, b) => scores[b] - scores[a] || files[a].content.length - files[b].content.length || a - b);
+}
+
+/**
+ * Declaration lines (functions, classes, types, headings...) with their line numbers.
+ * Returns an empty string when nothing recognizable is found.
+ */
+export function outlineFile(content: string): string {
+    const lines: string[] = [];
+    content.split('\n').forEach((line, n) => {
+        if (lines.length >= MAX_OUTLINE_LINES) return;
+        if (OUTLINE_LINE.some(pattern => pattern.test(line))) {
+            lines.push(`${n + 1}: ${line.trimEnd().substring(0, MAX_OUTLINE_LINE_LENGTH)}`);
+        }
+    });
+    return lines.join('\n');
+}
+
+function fullSection(file: FileData, i: number): string {
+    return `--- File Index ${i}: ${file.path} ---\n${file.content}`;
+}
+
+function outlineSection(file: FileData, i: number, outline: string): string {
+    return `--- File Index ${i}: ${file.path} (outline only; full content omitted to fit the context budget) ---\n${outline}`;
+}
+
+function omittedSection(file: FileData, i: number): string {
+    return `--- File Index ${i}: ${file.path} (content omitted to fit the context budget) ---`;
+}
+
+/**
+ * Builds the "--- File Index i: path ---" context within `budgetTokens`. Sections keep their
+ * original index order so they line up with the file listing. When everything fits, every
+ * file is included verbatim. `fileIndices` labels the sections when `files` is a subset of the
+ * crawled files (e.g. a map-reduce batch), so the LLM sees the global indices.
+ */
+export function buildBudgetedFilesContext(files: FileData[], budgetTokens: number, fileIndices?: number[]): BudgetedContext {
+    const label = (i: number) => fileIndices?.[i] ?? i;
+    const sections: string[] = new Array(files.length);
+    const stats: ContextBudgetStats = { budgetTokens, estimatedTokens: 0, fullFiles: 0, outlinedFiles: 0, omittedFiles: 0 };
+    const separatorTokens = estimateTokens('\n\n');
+
+    // Every file gets at least its header, so reserve that first
+    let remaining = budgetTokens;
+    files.forEach((file, i) => {
+        sections[i] = omittedSection(file, label(i));
+        remaining -= estimateTokens(sections[i]) + separatorTokens;
+    });
+    if (remaining < 0) {
+        console.warn(`Context budget of ${budgetTokens} tokens is too small even for the ${files.length} file headers.`);
+    }
+
+    const ranked = rankFiles(files);
+    const outlines = files.map(file => outlineFile(file.content));
+    const levels: Array<'omitted' | 'outline' | 'full'> = files.map(() => 'omitted');
+    const upgrade = (i: number, section: string, level: 'outline' | 'full', allowance: number): number => {
+        const extra = estimateTokens(section) - estimateTokens(sections[i]);
+        if (extra > allowance) return 0;
+        sections[i] = section;
+        levels[i] = level;
+        remaining -= extra;
+        return extra;
+    };
+
+    // 1. Outlines in rank order, using at most a share of the budget, so every file is at least
+    //    sketched on big repos without crowding out the most important files' full content
+    let outlineAllowance = Math.max(remaining, 0) * OUTLINE_BUDGET_SHARE;
+    for (const i of ranked) {
+        if (outlines[i]) outlineAllowance -= upgrade(i, outlineSection(files[i], label(i), outlines[i]), 'outline', outlineAllowance);
+    }
+    // 2. Full content in rank order with everything that's left
+    for (const i of ranked) {
+        upgrade(i, fullSection(files[i], label(i)), 'full', remaining);
+    }
+    // 3. Outlines for files that got neither, if the full pass left room
+    for (const i of ranked) {
+        if (levels[i] === 'omitted' && outlines[i]) upgrade(i, outlineSection(files[i], label(i), outlines[i]), 'outline', remaining);
+    }
+
+    stats.fullFiles = levels.filter(l => l === 'full').length;
+    stats.outlinedFiles = levels.filter(l => l === 'outline').length;
+    stats.omittedFiles = files.length - stats.fullFiles - stats.outlinedFiles;
+
+    const context = sections.join('\n\n');
+    stats.estimatedTokens = estimateTokens(context);
+    if (stats.fullFiles < files.length) {
+        console.log(`Context budget ${budgetTokens} tokens: ${stats.fullFiles} full, ${stats.outlinedFiles} outlined, ${stats.omittedFiles} omitted (of ${files.length} files).`);
+    }
+    return { context, stats };
+}
@@ -0,0 +1,59 @@
+// lib/dry-run.ts
+import { DryRunResult, GenerationInput } from './types';
+import { fetchSourceFiles } from './pipeline';
+import { getBatchAbstractionsPrompt, getIdentifyAbstractionsPrompt } from './prompts';
+import { formatFileListing } from './utils';
+import { buildBudgetedFilesContext, resolveContextTokenBudget } from './context-budget';
+import { batchFilesByDirectory, resolveDiscoveryMode } from './abstractions';
+import { estimateCostUsd, estimateTokens } from './usage';
+import { getLlmProvider } from './providers';
+import { resolveStageLlm } from './model-routing';
+
+/**
+ * Runs only the crawl and estimates the size/cost of abstraction discovery (the largest prompts),
+ * so users can tune include/exclude patterns before spending any LLM calls.
+ */
+export async function runDryRun(input: GenerationInput, signal?: AbortSignal): Promise<{ success: boolean; result?: DryRunResult; error?: string }> {
+    const fetchResult = await fetchSourceFiles(input, undefined, signal);
+    if (fetchResult.error) {
+        return { success: false, error: fetchResult.error };
+    }
+
+    const files = fetchResult.files;
+    const stageLlm = resolveStageLlm('abstractions', input); // Discovery is the stage being estimated
+    const provider = getLlmProvider(stageLlm.provider);
+    const budgetTokens = resolveContextTokenBudget(provider, input.contextTokenBudget);
+    const { context, stats } = buildBudgetedFilesContext(files, budgetTokens);
+    const discoveryMode = resolveDiscoveryMode(input.discoveryMode, stats.fullFiles < files.length);
+    const language = input.language || "english";
+
+    // Map-reduce sends every batch in its own prompt (the merge prompt is small and not counted)
+    const prompts = discoveryMode === 'map-reduce'
+        ? batchFilesByDirectory(files, budgetTokens).map(batch => {
+            const batchFiles = batch.indices.map(i => files[i]);
+            const batchContext = buildBudgetedFilesContext(batchFiles, budgetTokens, batch.indices).context;
+            return getBatchAbstractionsPrompt(fetchResult.projectName, batch.label, batchContext, formatFileListing(batchFiles, batch.indices), language);
+        })
+        : [getIdentifyAbstractionsPrompt(fetchResult.projectName, context, formatFileListing(files), language)];
+    const estimatedPromptTokens = prompts.reduce((sum, prompt) => sum + estimateTokens(prompt), 0);
+
+    const model = stageLlm.model;
+    const fileSizes = files.map(f => ({ path: f.path, size: f.size ?? Buffer.byteLength(f.content, 'utf8') }));
+
+    return {
+        success: true,
+        result: {
+            projectName: fetchResult.projectName,
+            files: fileSizes,
+            skippedFiles: fetchResult.skippedFiles || [],
+            totalBytes: fileSizes.reduce((sum, f) => sum + f.size, 0),
+            estimatedPromptTokens,
+            contextBudget: stats,
+            discoveryMode,
+            discoveryCalls: discoveryMode === 'map-reduce' ? prompts.length + 1 : 1,
+            provider: provider.name,
+            model,
+            estimatedCostUsd: estimateCostUsd(provider.name, model, estimatedPromptTokens, 0),
+        },
+    };
+}
@@ -0,0 +1,150 @@
+// lib/epub-export.ts
+// EPUB 3 e-book from a finished tutorial: the OCF container (mimetype first and uncompressed), a
+// package document, a navigation document from the chapter list and one XHTML file per Markdown
+// file. E-readers don't run scripts, so mermaid diagrams are kept as their source text.
+import JSZip from 'jszip';
+import { ChapterInfo, GenerationJob, TutorialContent } from './types';
+import { renderMarkdownHtml } from './markdown-html';
+
+// BCP 47 tags for the form's languages; anything else that already looks like a tag is used as is
+const LANGUAGE_TAGS: Record<string, string> = {
+    english: 'en', spanish: 'es', french: 'fr', german: 'de', japanese: 'ja', chinese: 'zh',
+    korean: 'ko', portuguese: 'pt', italian: 'it', russian: 'ru',
+};
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const STYLE_CSS = `body { font-family: serif; line-height: 1.5; }
+h1, h2, h3 { font-family: sans-serif; line-height: 1.25; }
+code, pre { font-family: monospace; font-size: 0.85em; }
+pre { white-space: pre-wrap; word-wrap: break-word; border: 1px solid #ccc; padding: 0.5em; }
+:not(pre) > code { background: #eee; padding: 0 0.2em; }
+blockquote { border-left: 3px solid #888; margin-left: 0; padding-left: 1em; font-style: italic; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #999; padding: 0.25em 0.5em; }
+figure.diagram { margin: 1em 0; }
+figure.diagram figcaption { font-size: 0.8em; color: #555; }
+nav ol { list-style: none; padding-left: 0; }
+.hljs-comment, .hljs-quote { color: #6a737d; font-style: italic; }
+.hljs-keyword, .hljs-selector-tag, .hljs-literal { color: #d73a49; }
+.hljs-string, .hljs-regexp { color: #032f62; }
+.hljs-title, .hljs-section, .hljs-name { color: #6f42c1; }
+.hljs-number, .hljs-attr, .hljs-attribute, .hljs-built_in, .hljs-type { color: #005cc5; }
+`;
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function xhtmlFileName(markdownFile: string): string {
+    return markdownFile.replace(/\.md$/i, '') + '.xhtml';
+}
+
+function languageTag(language?: string): string {
+    const value = (language || 'english').trim().toLowerCase();
+    if (LANGUAGE_TAGS[value]) return LANGUAGE_TAGS[value];
+    return /^[a-z]{2,3}(-[a-z0-9]+)*$/.test(value) ? value : 'und';
+}
+
+// dcterms:modified must be a UTC timestamp without fractional seconds
+function epubTimestamp(iso: string): string {
+    return new Date(iso).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function xhtmlDocument(title: string, lang: string, body: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+<head>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function navDocument(projectName: string, chapters: Pick<ChapterInfo, 'num' | 'name' | 'filename'>[], lang: string): string {
+    const items = [
+        `<li><a href="index.xhtml">Overview</a></li>`,
+        ...chapters.map(c => `<li><a href="${xhtmlFileName(c.filename)}">${c.num}. ${escapeXml(c.name)}</a></li>`),
+    ];
+    return xhtmlDocument(projectName, lang, `<nav epub:type="toc" id="toc">
+<h1>${escapeXml(projectName)}</h1>
+<ol>
+${items.join('\n')}
+</ol>
+</nav>`);
+}
+
+function packageDocument(content: TutorialContent, job: GenerationJob, lang: string, pages: { id: string; file: string }[]): string {
+    const manifest = [
+        `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+        `<item id="style" href="style.css" media-type="text/css"/>`,
+        ...pages.map(p => `<item id="${p.id}" href="${p.file}" media-type="application/xhtml+xml"/>`),
+    ];
+    const spine = pages.map(p => `<itemref idref="${p.id}"/>`);
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${lang}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${job.id}</dc:identifier>
+    <dc:title>${escapeXml(content.projectName)}</dc:title>
+    <dc:language>${lang}</dc:language>
+    <dc:description>${escapeXml(`Codebase tutorial for ${content.projectName}`)}</dc:description>
+    <dc:source>${escapeXml(job.source)}</dc:source>
+    <dc:date>${epubTimestamp(job.createdAt)}</dc:date>
+    <meta property="dcterms:modified">${epubTimestamp(job.updatedAt)}</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`;
+}
+
+/**
+ * Builds the book: index.md becomes the first page, followed by the chapters in order. The job's
+ * id is the book's identifier, so re-exports after regenerating a chapter update the same book.
+ */
+export async function buildEpub(content: TutorialContent, job: GenerationJob): Promise<Buffer> {
+    const lang = languageTag(job.settings?.language);
+    const sources = [
+        { id: 'index', markdown: 'index.md', title: content.projectName, content: content.index },
+        ...content.chapters.map(c => ({ id: `chapter-${c.num}`, markdown: c.filename, title: c.name, content: c.content })),
+    ];
+    const targets = new Map(sources.map(s => [s.markdown, xhtmlFileName(s.markdown)]));
+
+    const zip = new JSZip();
+    // The mimetype entry must come first and be stored uncompressed for readers to detect the format
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', CONTAINER_XML);
+    zip.file('OEBPS/style.css', STYLE_CSS);
+    zip.file('OEBPS/nav.xhtml', navDocument(content.projectName, content.chapters, lang));
+
+    const pages: { id: string; file: string }[] = [];
+    for (const source of sources) {
+        const rendered = await renderMarkdownHtml(source.content, {
+            linkTarget: filename => targets.get(filename) ?? null,
+            diagrams: 'source',
+            xhtml: true,
+        });
+        const file = xhtmlFileName(source.markdown);
+        zip.file(`OEBPS/${file}`, xhtmlDocument(source.title, lang, rendered.html));
+        pages.push({ id: source.id, file });
+    }
+    zip.file('OEBPS/content.opf', packageDocument(content, job, lang, pages));
+
+    console.log(`Built EPUB for ${content.projectName}: ${content.chapters.length} chapters.`);
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,30 @@
+// lib/exports.ts
+// Export formats for finished tutorials. The job's Markdown zip stays the source of truth; exports
+// are built from it on request, so they always reflect regenerated chapters.
+import { ExportFormat, GenerationJob, TutorialContent } from './types';
+import { sanitizeFilename } from './utils';
+import { buildHtmlSite } from './html-export';
+import { buildMkDocsProject } from './mkdocs-export';
+import { buildEpub } from './epub-export';
+
+interface ExportDefinition {
+    suffix: string; // Of the downloaded file name, after the project name
+    contentType: string;
+    build: (content: TutorialContent, job: GenerationJob) => Promise<Buffer>; // The job supplies metadata (id, source, language)
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportDefinition> = {
+    html: { suffix: '_site.zip', contentType: 'application/zip', build: buildHtmlSite },
+    mkdocs: { suffix: '_mkdocs.zip', contentType: 'application/zip', build: buildMkDocsProject },
+    epub: { suffix: '.epub', contentType: 'application/epub+zip', build: buildEpub },
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+export async function exportTutorial(content: TutorialContent, format: ExportFormat, job: GenerationJob): Promise<{ buffer: Buffer; fileName: string; contentType: string }> {
+    const definition = EXPORT_FORMATS[format];
+    const buffer = await definition.build(content, job);
+    return { buffer, fileName: `${sanitizeFilename(content.projectName)}${definition.suffix}`, contentType: definition.contentType };
+}
@@ -0,0 +1,93 @@
+// lib/form-input.ts
+import { GenerationInput } from './types';
+import { isLlmProviderName, LLM_PROVIDER_NAMES } from './providers';
+import { ABSTRACTION_DISCOVERY_MODES, isAbstractionDiscoveryMode } from './abstractions';
+import { parseLlmStageOverrides } from './model-routing';
+
+export type ParsedGenerationRequest =
+    | { success: true; input: GenerationInput }
+    | { success: false; error: string };
+
+/**
+ * Parses and validates the multipart form posted by TutorialForm.
+ * Shared by the generation and dry-run routes; errors are meant for a 400 response.
+ */
+export async function parseGenerationRequest(request: Request): Promise<ParsedGenerationRequest> {
+    // Handle multipart/form-data for file uploads
+    let formData;
+    try {
+        formData = await request.formData();
+    } catch (error) {
+        console.error("Error getting form data:", error);
+        return { success: false, error: "Failed to parse form data" };
+    }
+
+    if (!formData) {
+        return { success: false, error: "Form data is empty or undefined" };
+    }
+
+    const data: Record<string, any> = {};
+    let uploadedFile: File | undefined = undefined;
+
+    try {
+        // Use a safer approach to iterate through form data
+        const entries = Array.from(formData.entries());
+        for (const [key, value] of entries) {
+            if (key === 'uploadedFile' && value instanceof File && value.size > 0) {
+                uploadedFile = value;
+                data[key] = value; // Keep file object
+                console.log(`Received file: ${value.name}, size: ${value.size}`);
+            } else if (key === 'includePatterns' || key === 'excludePatterns') {
+                // Assume comma-separated strings from basic textarea
+                data[key] = typeof value === 'string' && value.trim() ? value.split(',').map(s => s.trim()).filter(Boolean) : [];
+            } else if (key === 'maxFileSize' || key === 'contextTokenBudget' || key === 'chapterConcurrency') {
+                data[key] = typeof value === 'string' ? parseInt(value, 10) : undefined;
+            } else if (key === 'reviewPlan') {
+                data[key] = value === 'true';
+            } else if (key === 'llmStages') {
+                // JSON object of per-stage settings; validated below
+                data[key] = typeof value === 'string' && value.trim() ? value : undefined;
+            } else if (typeof value === 'string') {
+                data[key] = value;
+            }
+        }
+    } catch (error) {
+        console.error("Error processing form entries:", error);
+        return { success: false, error: "Failed to process form fields" };
+    }
+
+    // Basic type assertion after parsing form data
+    const input = data as unknown as GenerationInput;
+    if (uploadedFile) {
+        input.uploadedFile = uploadedFile; // Ensure file object is set correctly
+    }
+
+    console.log("Parsed request body:", { ...input, githubToken: input.githubToken ? '***' : undefined, uploadedFile: input.uploadedFile ? { name: input.uploadedFile.name, size: input.uploadedFile.size, type: input.uploadedFile.type } : undefined });
+
+    // --- Validation ---
+    if (!input.sourceType || (input.sourceType === 'repo' && !input.repoUrl) || (input.sourceType === 'upload' && !input.uploadedFile)) {
+        return { success: false, error: "Missing required fields: sourceType and either repoUrl or uploadedFile." };
+    }
+    if (input.llmProvider && !isLlmProviderName(input.llmProvider)) {
+        return { success: false, error: `Unknown llmProvider '${input.llmProvider}'. Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}.` };
+    }
+    if (input.discoveryMode && !isAbstractionDiscoveryMode(input.discoveryMode)) {
+        return { success: false, error: `Unknown discoveryMode '${input.discoveryMode}'. Expected one of: ${ABSTRACTION_DISCOVERY_MODES.join(', ')}.` };
+    }
+
+    if (data.llmStages !== undefined) {
+        let stages: unknown;
+        try {
+            stages = JSON.parse(data.llmStages);
+        } catch {
+            return { success: false, error: "llmStages must be a JSON object." };
+        }
+        const parsed = parseLlmStageOverrides(stages);
+        if (!parsed.success) {
+            return { success: false, error: `Invalid llmStages: ${parsed.error}` };
+        }
+        input.llmStages = parsed.data;
+    }
+
+    return { success: true, input };
+}
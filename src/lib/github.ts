@@ -1,7 +1,7 @@
 // lib/github.ts
 import { Octokit } from "octokit";
 import { FileData, FetchedFilesResult } from "./types";
-import { shouldIncludeFile } from "./utils";
+import { CANCELLED_MESSAGE, shouldIncludeFile, sleep } from "./utils";
 import { RequestError } from "@octokit/request-error"; // Import RequestError for specific error handling
 
 // Rate limit handling (basic)
@@ -16,7 +16,8 @@ async function fetchWithRetry(url: string, options: RequestInit, retries = MAX_R
                 const resetTime = parseInt(response.headers.get('X-RateLimit-Reset') || '0', 10);
                 const waitTime = Math.max(resetTime * 1000 - Date.now(), 0) + 1000; // Wait 1s past reset
                 console.warn(`GitHub Rate Limit hit. Retrying in ${waitTime / 1000}s...`);
-                await new Promise(resolve => setTimeout(resolve, waitTime));
+                await sleep(waitTime, options.signal ?? undefined);
+                options.signal?.throwIfAborted();
                 return fetchWithRetry(url, options, retries - 1);
             } else {
                 throw new Error("GitHub Rate Limit exceeded after multiple retries.");
@@ -27,9 +28,10 @@ async function fetchWithRetry(url: string, options: RequestInit, retries = MAX_R
          }
         return response;
     } catch (error) {
-        if (retries > 0) {
+        if (retries > 0 && !options.signal?.aborted) { // A cancelled crawl isn't retried
             console.warn(`Fetch failed for ${url}. Retrying in ${RETRY_DELAY_MS / 1000}s... Error: ${error}`);
-            await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+            await sleep(RETRY_DELAY_MS, options.signal ?? undefined);
+            options.signal?.throwIfAborted();
             return fetchWithRetry(url, options, retries - 1);
         }
         throw error; // Rethrow after max retries
@@ -42,7 +44,9 @@ export async function crawlGitHubFiles(
     token: string | undefined,
     includePatterns: string[] | undefined,
     excludePatterns: string[] | undefined,
-    maxFileSize: number
+    maxFileSize: number,
+    onProgress?: (fetched: number, total: number) => void, // Reports completed blob fetches
+    signal?: AbortSignal // Stops the crawl, including in-flight requests
 ): Promise<FetchedFilesResult> {
     const files: FileData[] = [];
     const skippedFiles: { path: string; reason: string }[] = [];
@@ -84,7 +88,7 @@ export async function crawlGitHubFiles(
         // Note: Recursive fetch can be large. Consider pagination for huge repos.
         const apiUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/${ref}?recursive=1`;
         console.log(`Fetching tree: ${apiUrl}`);
-        const treeResponse = await fetchWithRetry(apiUrl, { headers });
+        const treeResponse = await fetchWithRetry(apiUrl, { headers, signal });
 
         if (treeResponse.status === 404) {
              return { files: [], projectName, error: `Repository, branch, or commit '${ref}' not found. Check URL and token permissions.` };
@@ -139,12 +143,14 @@ export async function crawlGitHubFiles(
         const concurrencyLimit = 10; // Adjust as needed
         let activeFetches = 0;
         let fetchIndex = 0;
+        let completedFetches = 0;
         const totalFiles = filesToFetch.length;
         console.log(`Fetching content for ${totalFiles} files...`);
+        onProgress?.(0, totalFiles);
 
         const processFetch = async (fileInfo: { path: string; url: string; size: number }) => {
             try {
-                const blobResponse = await fetchWithRetry(fileInfo.url, { headers });
+                const blobResponse = await fetchWithRetry(fileInfo.url, { headers, signal });
                 if (!blobResponse.ok) {
                     throw new Error(`Failed to fetch blob ${fileInfo.path}: ${blobResponse.statusText}`);
                 }
@@ -174,6 +180,10 @@ export async function crawlGitHubFiles(
                 skippedFiles.push({ path: fileInfo.path, reason: `Fetch error: ${error.message}` });
             } finally {
                 activeFetches--;
+                completedFetches++;
+                if (onProgress && (completedFetches % 10 === 0 || completedFetches === totalFiles)) {
+                    onProgress(completedFetches, totalFiles);
+                }
                 // Trigger next fetch if available
                  /* eslint-disable no-use-before-define */
                 triggerNext();
@@ -182,7 +192,7 @@ export async function crawlGitHubFiles(
         };
 
         const triggerNext = () => {
-            while (activeFetches < concurrencyLimit && fetchIndex < totalFiles) {
+            while (activeFetches < concurrencyLimit && fetchIndex < totalFiles && !signal?.aborted) {
                 activeFetches++;
                 const currentIndex = fetchIndex++;
                 // Show progress
@@ -192,7 +202,7 @@ export async function crawlGitHubFiles(
                 processFetch(filesToFetch[currentIndex]);
             }
             // Resolve promise when all fetches are complete
-             if (fetchIndex === totalFiles && activeFetches === 0) {
+             if ((fetchIndex === totalFiles || signal?.aborted) && activeFetches === 0) {
                  /* eslint-disable no-use-before-define */
                  allFetchesDone();
                  /* eslint-enable no-use-before-define */
@@ -207,6 +217,12 @@ export async function crawlGitHubFiles(
 
         triggerNext(); // Start the fetching process
         await completionPromise; // Wait for all parallel fetches to complete
+        if (signal?.aborted) {
+            console.log(`GitHub crawl cancelled after ${completedFetches}/${totalFiles} files.`);
+            return { files: [], projectName, error: CANCELLED_MESSAGE };
+        }
+        // Fetches finish in arbitrary order; sort so file indices (and prompts) are stable between runs
+        files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
 
 
         console.log(`Finished fetching files. Got ${files.length}, skipped ${skippedFiles.length}.`);
@@ -214,6 +230,7 @@ export async function crawlGitHubFiles(
         return { files, projectName, skippedFiles };
 
     } catch (error: any) {
+        if (signal?.aborted) return { files: [], projectName, error: CANCELLED_MESSAGE };
         console.error("Error crawling GitHub repository:", error);
         // Handle specific Octokit/fetch errors if possible
         if (error instanceof RequestError && error.status === 404) {
@@ -0,0 +1,230 @@
+// lib/html-export.ts
+// Static HTML site from a finished tutorial: one page per Markdown file with a chapter sidebar,
+// prev/next links in chapter order, mermaid drawn in the browser and an offline search index.
+// Everything is relative, so the site works from any static host or straight from disk.
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { TutorialContent } from './types';
+import { renderMarkdownHtml } from './markdown-html';
+
+const MERMAID_BUNDLE = path.join(process.cwd(), 'node_modules', 'mermaid', 'dist', 'mermaid.min.js');
+const MERMAID_CDN = 'https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.min.js';
+
+interface SitePage {
+    file: string; // "index.html", "01_Name.html"
+    title: string;
+    html: string;
+    text: string;
+    hasMermaid: boolean;
+}
+
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function htmlFileName(markdownFile: string): string {
+    return markdownFile.replace(/\.md$/i, '') + '.html';
+}
+
+const STYLE_CSS = `* { box-sizing: border-box; }
+body { margin: 0; background: #111827; color: #d1d5db; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; display: flex; min-height: 100vh; }
+a { color: #60a5fa; text-decoration: none; }
+a:hover { text-decoration: underline; }
+.sidebar { width: 17rem; flex-shrink: 0; padding: 1.5rem 1rem; border-right: 1px solid #374151; position: sticky; top: 0; align-self: flex-start; max-height: 100vh; overflow-y: auto; }
+.sidebar .project { display: block; font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; color: #9ca3af; margin-bottom: 0.75rem; }
+.sidebar input { width: 100%; padding: 0.375rem 0.5rem; margin-bottom: 0.75rem; border: 1px solid #4b5563; border-radius: 0.375rem; background: #1f2937; color: #f3f4f6; }
+.sidebar ol, .sidebar ul { list-style: none; margin: 0; padding: 0; }
+.toc a { display: block; padding: 0.25rem 0.5rem; border-radius: 0.25rem; color: #d1d5db; font-size: 0.875rem; }
+.toc a:hover { background: #1f2937; text-decoration: none; }
+.toc a.active { background: rgba(88, 28, 135, 0.5); color: #fff; }
+#search-results { margin-bottom: 1rem; }
+#search-results li { padding: 0.375rem 0.5rem; border-bottom: 1px solid #374151; font-size: 0.8125rem; }
+#search-results .snippet { display: block; color: #9ca3af; margin-top: 0.125rem; }
+#search-results mark { background: #7c3aed; color: #fff; }
+main { flex: 1; min-width: 0; max-width: 56rem; padding: 2rem; }
+.pager { display: flex; justify-content: space-between; gap: 1rem; margin-top: 2rem; padding-top: 1rem; border-top: 1px solid #374151; font-size: 0.875rem; }
+@media (max-width: 768px) { body { display: block; } .sidebar { position: static; width: auto; max-height: none; border-right: 0; border-bottom: 1px solid #374151; } }
+
+.tutorial-markdown { line-height: 1.7; }
+.tutorial-markdown h1 { font-size: 1.875rem; font-weight: 700; color: #f3f4f6; margin: 0 0 1rem; }
+.tutorial-markdown h2 { font-size: 1.5rem; font-weight: 600; color: #f3f4f6; margin: 2rem 0 0.75rem; }
+.tutorial-markdown h3 { font-size: 1.25rem; font-weight: 600; color: #e5e7eb; margin: 1.5rem 0 0.5rem; }
+.tutorial-markdown p, .tutorial-markdown ul, .tutorial-markdown ol, .tutorial-markdown table, .tutorial-markdown blockquote { margin: 0 0 1rem; }
+.tutorial-markdown ul, .tutorial-markdown ol { padding-left: 1.5rem; }
+.tutorial-markdown strong { color: #f3f4f6; }
+.tutorial-markdown hr { border: 0; border-top: 1px solid #374151; margin: 2rem 0; }
+.tutorial-markdown blockquote { border-left: 4px solid #7c3aed; padding: 0.25rem 1rem; color: #9ca3af; }
+.tutorial-markdown table { border-collapse: collapse; display: block; overflow-x: auto; }
+.tutorial-markdown th, .tutorial-markdown td { border: 1px solid #4b5563; padding: 0.375rem 0.75rem; }
+.tutorial-markdown th { background: #1f2937; }
+.tutorial-markdown code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.875em; }
+.tutorial-markdown :not(pre) > code { background: #374151; border-radius: 0.25rem; padding: 0.125rem 0.375rem; }
+.tutorial-markdown pre { background: #111827; border: 1px solid #374151; border-radius: 0.375rem; padding: 1rem; margin: 0 0 1rem; overflow-x: auto; }
+.tutorial-markdown pre.mermaid { background: transparent; text-align: center; }
+
+.hljs-comment, .hljs-quote { color: #8b949e; font-style: italic; }
+.hljs-keyword, .hljs-selector-tag, .hljs-literal, .hljs-doctag { color: #ff7b72; }
+.hljs-string, .hljs-regexp, .hljs-addition { color: #a5d6ff; }
+.hljs-number, .hljs-variable, .hljs-template-variable, .hljs-attr, .hljs-attribute { color: #79c0ff; }
+.hljs-title, .hljs-section, .hljs-name, .hljs-selector-id, .hljs-selector-class { color: #d2a8ff; }
+.hljs-type, .hljs-built_in, .hljs-symbol, .hljs-bullet { color: #ffa657; }
+.hljs-meta, .hljs-params { color: #c9d1d9; }
+.hljs-deletion { color: #ffa198; }
+.hljs-emphasis { font-style: italic; }
+.hljs-strong { font-weight: 700; }
+`;
+
+// Plain ES5 so it runs anywhere; every query term must match a page's title or text (as a prefix of a word)
+const SEARCH_JS = `(function () {
+  // Lowercased copies start with a space so a match at the very start is a word start too
+  var docs = (window.TUTORIAL_SEARCH_INDEX || []).map(function (doc) {
+    return { title: doc.title, url: doc.url, text: doc.text, lowerTitle: ' ' + doc.title.toLowerCase(), lowerText: ' ' + doc.text.toLowerCase() };
+  });
+  var input = document.getElementById('search');
+  var list = document.getElementById('search-results');
+  if (!input || !list) return;
+
+  function escapeHtml(value) {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+  function wordStarts(lowerText, term) {
+    var count = 0, at = -1, pos = lowerText.indexOf(term);
+    while (pos !== -1) {
+      if (!/[a-z0-9_]/i.test(lowerText.charAt(pos - 1))) { count++; if (at < 0) at = pos - 1; }
+      pos = lowerText.indexOf(term, pos + term.length);
+    }
+    return { count: count, at: at }; // at: index in doc.text
+  }
+  function escapeRegExp(value) {
+    return value.replace(/[.*+?^$|()[\\]{}\\\\]/g, '\\\\$&');
+  }
+  // Matches are found in the raw text and each piece escaped afterwards, so terms never match inside entities
+  function snippet(doc, at, terms) {
+    var start = Math.max(0, at - 60), end = at + 140;
+    var longestFirst = terms.slice().sort(function (a, b) { return b.length - a.length; });
+    var pattern = new RegExp('(' + longestFirst.map(escapeRegExp).join('|') + ')', 'ig');
+    var html = doc.text.slice(start, end).split(pattern).map(function (piece, i) {
+      return i % 2 === 1 ? '<mark>' + escapeHtml(piece) + '</mark>' : escapeHtml(piece);
+    }).join('');
+    return (start > 0 ? '...' : '') + html + (end < doc.text.length ? '...' : '');
+  }
+  function search(query) {
+    var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+    var hits = [];
+    docs.forEach(function (doc) {
+      var score = 0, at = -1;
+      for (var i = 0; i < terms.length; i++) {
+        var inTitle = wordStarts(doc.lowerTitle, terms[i]).count > 0;
+        var match = wordStarts(doc.lowerText, terms[i]);
+        if (!inTitle && match.count === 0) return;
+        score += match.count + (inTitle ? 10 : 0);
+        if (at < 0) at = match.at;
+      }
+      hits.push({ doc: doc, score: score, at: Math.max(at, 0), terms: terms });
+    });
+    return hits.sort(function (a, b) { return b.score - a.score; }).slice(0, 20);
+  }
+  function render() {
+    var hits = search(input.value);
+    list.hidden = input.value.trim() === '';
+    list.innerHTML = hits.length === 0
+      ? '<li>No results</li>'
+      : hits.map(function (hit) {
+          return '<li><a href="' + hit.doc.url + '">' + escapeHtml(hit.doc.title) + '</a><span class="snippet">' + snippet(hit.doc, hit.at, hit.terms) + '</span></li>';
+        }).join('');
+  }
+  input.addEventListener('input', render);
+  input.addEventListener('keydown', function (event) {
+    if (event.key === 'Escape') { input.value = ''; render(); }
+    if (event.key === 'Enter') {
+      var first = list.querySelector('a');
+      if (first) window.location.href = first.getAttribute('href');
+    }
+  });
+})();
+`;
+
+function renderPage(content: TutorialContent, pages: SitePage[], pos: number, mermaidSrc: string): string {
+    const page = pages[pos];
+    const previous = pos > 0 ? pages[pos - 1] : null;
+    const next = pages[pos + 1] ?? null;
+    const toc = pages.map((p, i) => {
+        const label = i === 0 ? 'Overview' : `${content.chapters[i - 1].num}. ${p.title}`;
+        return `<li><a href="${p.file}"${i === pos ? ' class="active"' : ''}>${escapeHtml(label)}</a></li>`;
+    }).join('\n');
+    const mermaid = page.hasMermaid
+        ? `<script src="${mermaidSrc}"></script>\n<script>mermaid.initialize({ startOnLoad: true, theme: 'dark', securityLevel: 'strict' });</script>\n`
+        : '';
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(pos === 0 ? content.projectName : `${page.title} - ${content.projectName}`)}</title>
+<link rel="stylesheet" href="assets/style.css">
+</head>
+<body>
+<nav class="sidebar" aria-label="Table of contents">
+<a class="project" href="index.html">${escapeHtml(content.projectName)}</a>
+<input id="search" type="search" placeholder="Search..." aria-label="Search the tutorial" autocomplete="off">
+<ol id="search-results" hidden></ol>
+<ul class="toc">
+${toc}
+</ul>
+</nav>
+<main>
+<article class="tutorial-markdown">
+${page.html}
+</article>
+<nav class="pager">
+${previous ? `<a href="${previous.file}">&larr; ${escapeHtml(pos === 1 ? 'Overview' : previous.title)}</a>` : '<span></span>'}
+${next ? `<a href="${next.file}">${escapeHtml(next.title)} &rarr;</a>` : '<span></span>'}
+</nav>
+</main>
+<script src="assets/search-index.js"></script>
+<script src="assets/search.js"></script>
+${mermaid}</body>
+</html>
+`;
+}
+
+/**
+ * Builds the site as a zip: index.html, one page per chapter (same names as the .md files) and
+ * assets/. mermaid.js is bundled from node_modules so diagrams render offline; if it can't be read
+ * the pages load it from a CDN instead.
+ */
+export async function buildHtmlSite(content: TutorialContent): Promise<Buffer> {
+    const sources = [
+        { markdown: 'index.md', title: content.projectName, content: content.index },
+        ...content.chapters.map(c => ({ markdown: c.filename, title: c.name, content: c.content })),
+    ];
+    const targets = new Map(sources.map(s => [s.markdown, htmlFileName(s.markdown)]));
+
+    const pages: SitePage[] = [];
+    for (const source of sources) {
+        const rendered = await renderMarkdownHtml(source.content, { linkTarget: filename => targets.get(filename) ?? null });
+        pages.push({ file: htmlFileName(source.markdown), title: source.title, ...rendered });
+    }
+
+    const zip = new JSZip();
+    let mermaidSrc = 'assets/mermaid.min.js';
+    if (pages.some(p => p.hasMermaid)) {
+        try {
+            zip.file('assets/mermaid.min.js', await fs.promises.readFile(MERMAID_BUNDLE));
+        } catch (error: any) {
+            console.warn(`Could not bundle mermaid.js (${error.message}); the exported site will load it from ${MERMAID_CDN}.`);
+            mermaidSrc = MERMAID_CDN;
+        }
+    }
+
+    pages.forEach((page, pos) => zip.file(page.file, renderPage(content, pages, pos, mermaidSrc)));
+    const searchIndex = pages.map(p => ({ title: p.title, url: p.file, text: p.text }));
+    zip.file('assets/search-index.js', `window.TUTORIAL_SEARCH_INDEX = ${JSON.stringify(searchIndex).replace(/</g, '\\u003c')};\n`);
+    zip.file('assets/search.js', SEARCH_JS);
+    zip.file('assets/style.css', STYLE_CSS);
+
+    console.log(`Built HTML site for ${content.projectName}: ${pages.length} pages.`);
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,387 @@
+// lib/jobs.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { GenerationInput, GenerationJob, JobSummary, ProgressEvent, ProgressUpdate, TutorialPlan, TutorialState } from './types';
+import { runTutorialPipeline } from './pipeline';
+import { regenerateTutorialChapter } from './regenerate';
+import { parseTutorialPlan } from './plan-review';
+import { DATA_DIR } from './paths';
+
+// File-backed job store: one `<id>.json` record plus `<id>.zip` output per job, and
+// `<id>.state.json` with what's needed to regenerate single chapters later.
+// Lives outside the request lifecycle so long generations don't hit route timeouts.
+const JOBS_DIR = path.join(DATA_DIR, 'jobs');
+
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Jobs running in this server process. A record that says "running" but isn't
+// in here was orphaned by a restart. Kept on globalThis so dev hot reloads don't reset it.
+const globalJobs = globalThis as typeof globalThis & {
+    __doctatoActiveJobs?: Set<string>;
+    __doctatoJobEvents?: EventEmitter;
+    __doctatoJobControllers?: Map<string, AbortController>;
+    __doctatoJobWriteQueues?: Map<string, Promise<void>>;
+    __doctatoRegeneratingJobs?: Set<string>;
+    __doctatoPlanReviews?: Map<string, (plan: TutorialPlan) => void>;
+};
+const activeJobs = globalJobs.__doctatoActiveJobs ??= new Set<string>();
+
+// Aborts a running job's pipeline (see cancelJob)
+const jobControllers = globalJobs.__doctatoJobControllers ??= new Map<string, AbortController>();
+
+// Fires `<id>` with the updated job after every write, for live (SSE) subscribers.
+const jobEvents = globalJobs.__doctatoJobEvents ??= new EventEmitter().setMaxListeners(0);
+
+// Serialize writes per job so progress updates can't clobber each other.
+const writeQueues = globalJobs.__doctatoJobWriteQueues ??= new Map<string, Promise<void>>();
+
+// Paused pipelines waiting for their reviewed plan (see submitJobPlan)
+const planReviews = globalJobs.__doctatoPlanReviews ??= new Map<string, (plan: TutorialPlan) => void>();
+
+// Jobs with a chapter regeneration in progress; one at a time per job, as each rewrites the zip
+const regeneratingJobs = globalJobs.__doctatoRegeneratingJobs ??= new Set<string>();
+
+function jobPath(id: string, ext: 'json' | 'zip' | 'state.json'): string {
+    if (!JOB_ID_PATTERN.test(id)) {
+        throw new Error(`Invalid job id: ${id}`);
+    }
+    return path.join(JOBS_DIR, `${id}.${ext}`);
+}
+
+export function isValidJobId(id: string): boolean {
+    return JOB_ID_PATTERN.test(id);
+}
+
+async function writeJob(job: GenerationJob): Promise<void> {
+    await fs.mkdir(JOBS_DIR, { recursive: true });
+    const target = jobPath(job.id, 'json');
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(job, null, 2), 'utf-8');
+    await fs.rename(tmp, target); // Atomic replace so readers never see a partial file
+}
+
+export async function getJob(id: string): Promise<GenerationJob | null> {
+    if (!isValidJobId(id)) return null;
+    let job: GenerationJob;
+    try {
+        job = JSON.parse(await fs.readFile(jobPath(id, 'json'), 'utf-8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+
+    if ((job.status === 'running' || job.status === 'queued' || job.status === 'awaiting_review') && !activeJobs.has(id)) {
+        return failJob(id, "Job was interrupted (server restarted before it finished).");
+    }
+    return job;
+}
+
+export async function updateJob(
+    id: string,
+    patch: Partial<GenerationJob> | ((current: GenerationJob) => Partial<GenerationJob>)
+): Promise<GenerationJob> {
+    let updated!: GenerationJob;
+    const previous = writeQueues.get(id) || Promise.resolve();
+    const next = previous.then(async () => {
+        const current: GenerationJob = JSON.parse(await fs.readFile(jobPath(id, 'json'), 'utf-8'));
+        const changes = typeof patch === 'function' ? patch(current) : patch;
+        updated = { ...current, ...changes, updatedAt: new Date().toISOString() };
+        await writeJob(updated);
+        jobEvents.emit(id, updated);
+    });
+    writeQueues.set(id, next.catch(() => {})); // Keep the chain alive after a failed write
+    await next;
+    return updated;
+}
+
+/**
+ * Subscribes to every update of a job. Returns an unsubscribe function.
+ */
+export function subscribeToJob(id: string, listener: (job: GenerationJob) => void): () => void {
+    jobEvents.on(id, listener);
+    return () => { jobEvents.off(id, listener); };
+}
+
+function appendEvent(id: string, update: ProgressUpdate, extra: Partial<GenerationJob> = {}): Promise<GenerationJob> {
+    const event: ProgressEvent = { ...update, type: update.type || 'progress', timestamp: new Date().toISOString() };
+    return updateJob(id, current => ({ ...extra, events: [...(current.events || []), event] }));
+}
+
+export async function readJobOutput(id: string): Promise<Buffer | null> {
+    if (!isValidJobId(id)) return null;
+    try {
+        return await fs.readFile(jobPath(id, 'zip'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+export async function readJobState(id: string): Promise<TutorialState | null> {
+    if (!isValidJobId(id)) return null;
+    try {
+        return JSON.parse(await fs.readFile(jobPath(id, 'state.json'), 'utf-8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+// Atomic replace, so a download running at the same time never sees a partial zip
+async function writeJobOutput(id: string, zipBuffer: Buffer): Promise<void> {
+    const target = jobPath(id, 'zip');
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, zipBuffer);
+    await fs.rename(tmp, target);
+}
+
+/**
+ * Every stored job, newest first, without the bulky parts (event log, plan, per-call usage).
+ */
+export async function listJobs(): Promise<JobSummary[]> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(JOBS_DIR);
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+    const ids = entries.filter(name => name.endsWith('.json') && !name.endsWith('.state.json')).map(name => name.slice(0, -'.json'.length));
+    const jobs = await Promise.all(ids.filter(isValidJobId).map(id => getJob(id).catch(error => {
+        console.error(`Skipping unreadable job ${id}:`, error);
+        return null;
+    })));
+    return jobs
+        .filter((job): job is GenerationJob => job !== null)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(({ events: _events, plan: _plan, report, ...job }) => ({
+            ...job,
+            report: report && { totals: report.totals, models: report.models },
+        }));
+}
+
+export type JobDeletionResult =
+    | { success: true }
+    | { success: false; httpStatus: number; error: string };
+
+/**
+ * Removes a job's record, zip and saved state. Jobs still running (or paused for review) must be
+ * cancelled first, and a tutorial can't be deleted while one of its chapters is being regenerated.
+ */
+export async function deleteJob(id: string): Promise<JobDeletionResult> {
+    const job = await getJob(id);
+    if (!job) return { success: false, httpStatus: 404, error: `Job ${id} not found.` };
+    if (activeJobs.has(id) || regeneratingJobs.has(id)) {
+        return { success: false, httpStatus: 409, error: `Job ${id} is still ${regeneratingJobs.has(id) ? 'regenerating a chapter' : job.status}; cancel it before deleting.` };
+    }
+    await writeQueues.get(id); // Let a pending record write land before the file goes
+    await Promise.all((['json', 'zip', 'state.json'] as const).map(ext => fs.rm(jobPath(id, ext), { force: true })));
+    writeQueues.delete(id);
+    console.log(`Job ${id} deleted.`);
+    return { success: true };
+}
+
+/**
+ * Creates a job record and starts the pipeline in the background.
+ * Returns as soon as the record is persisted; callers poll `getJob` for progress.
+ */
+export async function startGenerationJob(input: GenerationInput): Promise<GenerationJob> {
+    const now = new Date().toISOString();
+    const { uploadedFile: _file, githubToken: _token, ...settings } = input; // Never persist the token
+    const job: GenerationJob = {
+        id: randomUUID(),
+        status: 'queued',
+        source: input.sourceType === 'repo' ? input.repoUrl || '' : input.uploadedFile?.name || 'upload.zip',
+        projectName: input.projectName,
+        settings,
+        createdAt: now,
+        updatedAt: now,
+    };
+    await writeJob(job);
+    activeJobs.add(job.id);
+    jobControllers.set(job.id, new AbortController());
+
+    // Intentionally not awaited: the pipeline outlives the request that created it.
+    void runJob(job.id, input);
+
+    return job;
+}
+
+export type PlanSubmissionResult =
+    | { success: true; job: GenerationJob }
+    | { success: false; httpStatus: number; error: string };
+
+/**
+ * Resumes a job paused for plan review with the (possibly edited) plan. Errors carry the HTTP
+ * status the API should answer with.
+ */
+export async function submitJobPlan(id: string, value: unknown): Promise<PlanSubmissionResult> {
+    const job = await getJob(id);
+    if (!job) return { success: false, httpStatus: 404, error: `Job ${id} not found.` };
+    const resume = planReviews.get(id);
+    if (job.status !== 'awaiting_review' || !job.plan || !resume) {
+        return { success: false, httpStatus: 409, error: `Job ${id} is ${job.status}, not waiting for a plan review.` };
+    }
+    const parsed = parseTutorialPlan(value, job.plan.files);
+    if (!parsed.success || !parsed.data) return { success: false, httpStatus: 400, error: parsed.error || "Invalid plan." };
+
+    planReviews.delete(id);
+    const updated = await updateJob(id, { status: 'running', plan: undefined, message: "Plan approved." });
+    console.log(`Job ${id}: plan approved with ${parsed.data.chapterOrder.length} chapters.`);
+    resume(parsed.data);
+    return { success: true, job: updated };
+}
+
+/**
+ * Stops a queued or running job: crawling and LLM calls are aborted and the job ends as
+ * 'cancelled'. Returns null for unknown jobs; finished jobs are returned unchanged.
+ */
+export async function cancelJob(id: string): Promise<GenerationJob | null> {
+    const job = await getJob(id);
+    if (!job) return null;
+    const controller = jobControllers.get(id);
+    if (!controller || controller.signal.aborted) return job;
+
+    console.log(`Job ${id} cancellation requested.`);
+    controller.abort();
+    return updateJob(id, { message: "Cancelling..." });
+}
+
+async function runJob(id: string, input: GenerationInput): Promise<void> {
+    console.log(`Job ${id} started.`);
+    const signal = jobControllers.get(id)?.signal;
+    try {
+        await updateJob(id, { status: 'running' });
+
+        const onProgress = (update: ProgressUpdate) => {
+            appendEvent(id, update, {
+                stage: update.stage,
+                message: update.message,
+                progress: update.total ? { current: update.current ?? 0, total: update.total } : undefined,
+            }).catch(error => console.error(`Failed to record progress for job ${id}:`, error));
+        };
+
+        // Parks the pipeline until submitJobPlan (or a cancel) settles the review
+        const reviewPlan = (plan: TutorialPlan) => new Promise<TutorialPlan | null>(resolve => {
+            if (signal?.aborted) return resolve(null);
+            signal?.addEventListener('abort', () => { planReviews.delete(id); resolve(null); }, { once: true });
+            planReviews.set(id, resolve);
+            updateJob(id, { status: 'awaiting_review', plan, message: "Review the plan, then continue to write the chapters." })
+                .catch(error => console.error(`Failed to record the plan for job ${id}:`, error));
+        });
+
+        const result = await runTutorialPipeline(input, onProgress, { runId: id, signal, reviewPlan });
+
+        if (result.cancelled) {
+            await updateJob(id, current => {
+                const event: ProgressEvent = {
+                    stage: current.stage || 'fetching',
+                    type: 'cancelled',
+                    message: "Generation cancelled.",
+                    timestamp: new Date().toISOString(),
+                };
+                return { status: 'cancelled', message: event.message, events: [...(current.events || []), event] };
+            });
+            console.log(`Job ${id} cancelled.`);
+            return;
+        }
+
+        if (!result.success || !result.zipBuffer) {
+            await failJob(id, result.error || "Generation failed.");
+            console.error(`Job ${id} failed: ${result.error}`);
+            return;
+        }
+
+        await writeJobOutput(id, result.zipBuffer);
+        if (result.state) await fs.writeFile(jobPath(id, 'state.json'), JSON.stringify(result.state), 'utf-8');
+        const failedCount = result.failedChapters?.length ?? 0;
+        await updateJob(id, {
+            status: failedCount > 0 ? 'partial' : 'completed',
+            message: failedCount > 0 ? `Tutorial ready, but ${failedCount} ${failedCount === 1 ? 'chapter' : 'chapters'} failed.` : "Tutorial ready.",
+            projectName: result.projectName,
+            fileName: result.fileName,
+            report: result.report,
+            failedChapters: result.failedChapters,
+            chapters: result.state?.chapters.map(({ num, name, filename }) => ({ num, name: name.trim(), filename })),
+        });
+        console.log(`Job ${id} ${failedCount > 0 ? `partially completed (${failedCount} failed chapters)` : 'completed'}: ${result.fileName}`);
+    } catch (error: any) {
+        console.error(`Job ${id} crashed:`, error);
+        await failJob(id, `Server error: ${error.message || 'Unknown server error'}`).catch(() => {});
+    } finally {
+        activeJobs.delete(id);
+        jobControllers.delete(id);
+    }
+}
+
+// Marks a job failed and records the failure against the stage that was running.
+async function failJob(id: string, error: string): Promise<GenerationJob> {
+    return updateJob(id, current => {
+        const event: ProgressEvent = {
+            stage: current.stage || 'fetching',
+            type: 'error',
+            message: error,
+            timestamp: new Date().toISOString(),
+        };
+        return { status: 'failed', error, events: [...(current.events || []), event] };
+    });
+}
+
+export type ChapterRegenerationResult =
+    | { success: true; job: GenerationJob; zipBuffer: Buffer }
+    | { success: false; httpStatus: number; error: string };
+
+/**
+ * Rewrites one chapter of a finished job's tutorial (see regenerate.ts) and replaces the job's
+ * zip, report and failed-chapter list. Errors carry the HTTP status the API should answer with.
+ */
+export async function regenerateJobChapter(id: string, chapterNum: number, feedback?: string, signal?: AbortSignal): Promise<ChapterRegenerationResult> {
+    const job = await getJob(id);
+    if (!job) return { success: false, httpStatus: 404, error: `Job ${id} not found.` };
+    if (job.status !== 'completed' && job.status !== 'partial') {
+        return { success: false, httpStatus: 409, error: `Job ${id} is ${job.status}; only finished tutorials can have chapters regenerated.` };
+    }
+    if (regeneratingJobs.has(id)) {
+        return { success: false, httpStatus: 409, error: `A chapter of job ${id} is already being regenerated.` };
+    }
+
+    regeneratingJobs.add(id);
+    try {
+        const [state, zipBuffer] = await Promise.all([readJobState(id), readJobOutput(id)]);
+        if (!state || !zipBuffer) {
+            return { success: false, httpStatus: 409, error: `Job ${id} has no saved tutorial state; generate it again to regenerate single chapters.` };
+        }
+        if (!state.chapters.some(c => c.num === chapterNum)) {
+            return { success: false, httpStatus: 400, error: `Chapter ${chapterNum} doesn't exist; the tutorial has chapters 1-${state.chapters.length}.` };
+        }
+
+        const result = await regenerateTutorialChapter({
+            state,
+            zipBuffer,
+            report: job.report,
+            failedChapters: job.failedChapters ?? [],
+            chapterNum,
+            feedback,
+            signal,
+        });
+        if (!result.success || !result.data) {
+            // 499: the client went away (nginx's convention); nothing was written
+            return { success: false, httpStatus: signal?.aborted ? 499 : 502, error: result.error || `Failed to regenerate chapter ${chapterNum}.` };
+        }
+
+        await writeJobOutput(id, result.data.zipBuffer);
+        const { failedChapters, report } = result.data;
+        const updated = await updateJob(id, {
+            status: failedChapters.length > 0 ? 'partial' : 'completed',
+            message: `Chapter ${chapterNum} regenerated.`,
+            report,
+            failedChapters: failedChapters.length > 0 ? failedChapters : undefined,
+        });
+        console.log(`Job ${id}: chapter ${chapterNum} regenerated.`);
+        return { success: true, job: updated, zipBuffer: result.data.zipBuffer };
+    } finally {
+        regeneratingJobs.delete(id);
+    }
+}
@@ -0,0 +1,218 @@
+// lib/llm-cache.ts
+// Disk-backed LLM response cache. Entries are content-addressed by a hash of
+// provider + model + generation config + prompt, so changing any of them is a miss.
+// Last access time is tracked through the file's mtime, which drives LRU eviction.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { LlmGenerationConfig } from './types';
+import { DATA_DIR } from './paths';
+
+const CACHE_DIR = path.join(DATA_DIR, 'llm-cache');
+
+const TTL_MS = Number(process.env.LLM_CACHE_TTL_HOURS ?? 24 * 7) * 60 * 60 * 1000; // 0 disables expiry
+const MAX_ENTRIES = Number(process.env.LLM_CACHE_MAX_ENTRIES ?? 1000);
+const MAX_BYTES = Number(process.env.LLM_CACHE_MAX_MB ?? 200) * 1024 * 1024;
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+export interface LlmCacheKeyParts {
+    provider: string;
+    model: string;
+    generationConfig: LlmGenerationConfig;
+    prompt: string;
+}
+
+export interface LlmCacheEntry {
+    key: string;
+    provider: string;
+    model: string;
+    generationConfig: LlmGenerationConfig;
+    promptPreview: string; // First few hundred chars, for the admin view
+    promptLength: number;
+    response: string;
+    truncated?: boolean; // The response stopped at the output token limit
+    createdAt: string;
+}
+
+export interface LlmCacheEntrySummary extends Omit<LlmCacheEntry, 'response'> {
+    size: number; // Bytes on disk
+    lastAccessedAt: string;
+    expired: boolean;
+}
+
+export interface LlmCacheStats {
+    entries: number;
+    totalBytes: number;
+    hits: number; // Counters below are since server start
+    misses: number;
+    writes: number;
+    evictions: number;
+    expired: number;
+    limits: { ttlHours: number; maxEntries: number; maxBytes: number };
+}
+
+const counters = { hits: 0, misses: 0, writes: 0, evictions: 0, expired: 0 };
+
+export function llmCacheKey({ provider, model, generationConfig, prompt }: LlmCacheKeyParts): string {
+    // Sort config keys so equivalent configs hash identically
+    const config = Object.fromEntries(Object.entries(generationConfig).sort(([a], [b]) => (a < b ? -1 : 1)));
+    return createHash('sha256')
+        .update(JSON.stringify({ provider, model, generationConfig: config, prompt }), 'utf8')
+        .digest('hex');
+}
+
+function entryPath(key: string): string {
+    if (!KEY_PATTERN.test(key)) throw new Error(`Invalid cache key: ${key}`);
+    return path.join(CACHE_DIR, `${key}.json`);
+}
+
+function isExpired(createdAt: number): boolean {
+    return TTL_MS > 0 && Date.now() - createdAt > TTL_MS;
+}
+
+export async function getCachedResponse(parts: LlmCacheKeyParts): Promise<Pick<LlmCacheEntry, 'response' | 'truncated'> | null> {
+    const key = llmCacheKey(parts);
+    let entry: LlmCacheEntry;
+    try {
+        entry = JSON.parse(await fs.readFile(entryPath(key), 'utf-8'));
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') console.error(`LLM cache read failed for ${key}:`, error);
+        counters.misses++;
+        return null;
+    }
+
+    if (isExpired(Date.parse(entry.createdAt))) {
+        counters.expired++;
+        counters.misses++;
+        await fs.rm(entryPath(key), { force: true });
+        return null;
+    }
+
+    counters.hits++;
+    const now = new Date();
+    await fs.utimes(entryPath(key), now, now).catch(() => {}); // Mark as recently used
+    return { response: entry.response, truncated: entry.truncated };
+}
+
+export async function setCachedResponse(parts: LlmCacheKeyParts, response: string, truncated = false): Promise<void> {
+    const entry: LlmCacheEntry = {
+        key: llmCacheKey(parts),
+        provider: parts.provider,
+        model: parts.model,
+        generationConfig: parts.generationConfig,
+        promptPreview: parts.prompt.substring(0, 300),
+        promptLength: parts.prompt.length,
+        response,
+        truncated: truncated || undefined,
+        createdAt: new Date().toISOString(),
+    };
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    const target = entryPath(entry.key);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entry), 'utf-8');
+    await fs.rename(tmp, target);
+    counters.writes++;
+    await enforceLimits();
+}
+
+async function listEntryFiles(): Promise<{ key: string; size: number; mtimeMs: number }[]> {
+    let names: string[];
+    try {
+        names = await fs.readdir(CACHE_DIR);
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+    const files = await Promise.all(names
+        .filter(name => name.endsWith('.json') && KEY_PATTERN.test(name.slice(0, -5)))
+        .map(async name => {
+            const stat = await fs.stat(path.join(CACHE_DIR, name)).catch(() => null);
+            return stat ? { key: name.slice(0, -5), size: stat.size, mtimeMs: stat.mtimeMs } : null;
+        }));
+    return files.filter((f): f is { key: string; size: number; mtimeMs: number } => f !== null);
+}
+
+// Evicts least recently used entries until both the entry and byte limits hold.
+async function enforceLimits(): Promise<void> {
+    const files = await listEntryFiles();
+    let totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+    let count = files.length;
+    if (count <= MAX_ENTRIES && totalBytes <= MAX_BYTES) return;
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs); // Oldest access first
+    for (const file of files) {
+        if (count <= MAX_ENTRIES && totalBytes <= MAX_BYTES) break;
+        await fs.rm(entryPath(file.key), { force: true });
+        count--;
+        totalBytes -= file.size;
+        counters.evictions++;
+    }
+    console.log(`LLM cache evicted entries; now ${count} entries, ${(totalBytes / 1024).toFixed(1)} KB.`);
+}
+
+export async function getLlmCacheStats(): Promise<LlmCacheStats> {
+    const files = await listEntryFiles();
+    return {
+        entries: files.length,
+        totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+        ...counters,
+        limits: { ttlHours: TTL_MS / (60 * 60 * 1000), maxEntries: MAX_ENTRIES, maxBytes: MAX_BYTES },
+    };
+}
+
+/**
+ * Lists cache entries (without response bodies), most recently used first.
+ */
+export async function listLlmCacheEntries(limit = 100, offset = 0): Promise<LlmCacheEntrySummary[]> {
+    const files = (await listEntryFiles()).sort((a, b) => b.mtimeMs - a.mtimeMs).slice(offset, offset + limit);
+    const summaries = await Promise.all(files.map(async file => {
+        try {
+            const { response: _response, ...entry }: LlmCacheEntry = JSON.parse(await fs.readFile(entryPath(file.key), 'utf-8'));
+            return {
+                ...entry,
+                size: file.size,
+                lastAccessedAt: new Date(file.mtimeMs).toISOString(),
+                expired: isExpired(Date.parse(entry.createdAt)),
+            };
+        } catch {
+            return null; // Removed or rewritten while listing
+        }
+    }));
+    return summaries.filter((s): s is LlmCacheEntrySummary => s !== null);
+}
+
+export async function getLlmCacheEntry(key: string): Promise<LlmCacheEntry | null> {
+    if (!KEY_PATTERN.test(key)) return null;
+    try {
+        return JSON.parse(await fs.readFile(entryPath(key), 'utf-8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+/**
+ * Deletes cache entries: a single key, only expired entries, or everything.
+ * Returns the number of entries removed.
+ */
+export async function purgeLlmCache(options: { key?: string; expiredOnly?: boolean } = {}): Promise<number> {
+    if (options.key) {
+        if (!KEY_PATTERN.test(options.key)) return 0;
+        const exists = await fs.stat(entryPath(options.key)).then(() => true, () => false);
+        await fs.rm(entryPath(options.key), { force: true });
+        return exists ? 1 : 0;
+    }
+
+    let removed = 0;
+    for (const file of await listEntryFiles()) {
+        if (options.expiredOnly) {
+            const entry = await getLlmCacheEntry(file.key).catch(() => null);
+            if (entry && !isExpired(Date.parse(entry.createdAt))) continue;
+        }
+        await fs.rm(entryPath(file.key), { force: true });
+        removed++;
+    }
+    console.log(`LLM cache purged ${removed} entries.`);
+    return removed;
+}
@@ -0,0 +1,74 @@
+// lib/llm-fixtures.ts
+// Record/replay of LLM calls, so the pipeline can run offline and deterministically.
+//   LLM_MODE=record  -> call the real provider and save every prompt/response pair
+//   LLM_MODE=replay  -> answer from saved fixtures only; a missing fixture is an error
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { STRUCTURED_OUTPUT_INSTRUCTION } from './prompts';
+
+export type LlmMode = 'live' | 'record' | 'replay';
+
+export interface LlmFixture {
+    key: string;
+    prompt: string;
+    response: string;
+    truncated?: boolean; // The response stopped at the output token limit
+    provider?: string;
+    model?: string;
+    recordedAt: string;
+}
+
+export function getLlmMode(): LlmMode {
+    const mode = process.env.LLM_MODE;
+    return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+export function getFixturesDir(): string {
+    return path.resolve(process.env.LLM_FIXTURES_DIR || path.join('fixtures', 'llm'));
+}
+
+// The structured-output instruction depends on the provider, not the task, so it's left out of the key
+export function fixtureKey(prompt: string): string {
+    const neutralPrompt = prompt.split(STRUCTURED_OUTPUT_INSTRUCTION).join('');
+    return createHash('sha256').update(neutralPrompt, 'utf8').digest('hex');
+}
+
+function fixturePath(key: string): string {
+    return path.join(getFixturesDir(), `${key}.json`);
+}
+
+export async function readFixture(prompt: string): Promise<LlmFixture | null> {
+    try {
+        return JSON.parse(await fs.readFile(fixturePath(fixtureKey(prompt)), 'utf-8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+export async function writeFixture(prompt: string, response: string, provider?: string, model?: string, truncated = false): Promise<void> {
+    const fixture: LlmFixture = {
+        key: fixtureKey(prompt),
+        prompt,
+        response,
+        truncated: truncated || undefined,
+        provider,
+        model,
+        recordedAt: new Date().toISOString(),
+    };
+    await fs.mkdir(getFixturesDir(), { recursive: true });
+    await fs.writeFile(fixturePath(fixture.key), JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Saves a prompt that had no fixture under `<fixtures>/_misses/`, so it can be inspected
+ * (or answered by hand) instead of digging it out of the logs. Returns the saved path.
+ */
+export async function recordMiss(prompt: string): Promise<string> {
+    const missDir = path.join(getFixturesDir(), '_misses');
+    const missPath = path.join(missDir, `${fixtureKey(prompt)}.prompt.txt`);
+    await fs.mkdir(missDir, { recursive: true });
+    await fs.writeFile(missPath, prompt, 'utf-8');
+    return missPath;
+}
@@ -0,0 +1,181 @@
+// lib/llm-retry.ts
+import YAML from 'yaml';
+import { LlmCallOptions, LlmLlmCallResult } from './types';
+import { callLlm } from './llm';
+import { getContinuationPrompt, getRepairPrompt, STRUCTURED_OUTPUT_INSTRUCTION } from './prompts';
+import { getLlmProvider, usesStructuredOutput } from './providers';
+import { CANCELLED_MESSAGE, sleep } from './utils';
+import { describeSchema, parseWithSchema, Schema, SchemaError, toResponseJsonSchema } from './schemas';
+
+// Follow-up requests for a Markdown answer cut off at the output token limit
+const MAX_CONTINUATIONS = Number(process.env.LLM_MAX_CONTINUATIONS ?? 3);
+// Models often restate the last line or two when asked to continue; repeats this long are dropped
+const MIN_OVERLAP_CHARS = 20;
+const MAX_OVERLAP_CHARS = 500;
+
+export interface LlmRetryOptions {
+    maxRetries?: number;
+    useCache?: boolean;
+    contentType?: 'yaml' | 'markdown'; // 'yaml' extracts the ```yaml block, 'markdown' uses the whole response
+    llm?: LlmCallOptions; // Provider/model override
+    onLlmCall?: (attempt: number, result: LlmLlmCallResult) => void; // Called after every LLM attempt, for usage accounting
+    onRetry?: (attempt: number, maxRetries: number, error: string) => void; // Called before each retry
+    schema?: Schema<unknown>; // Set by callLlmWithSchema: shown in repair prompts and sent as the response schema
+}
+
+// Length of the longest start of `piece` that repeats the end of `text`
+function overlapLength(text: string, piece: string): number {
+    for (let length = Math.min(MAX_OVERLAP_CHARS, text.length, piece.length); length >= MIN_OVERLAP_CHARS; length--) {
+        if (text.endsWith(piece.substring(0, length))) return length;
+    }
+    return 0;
+}
+
+/**
+ * While the latest piece of a Markdown answer stopped at the output token limit, asks the model
+ * to continue from where the text ends and appends the new piece. Every call goes to `onCall`
+ * for usage accounting. The joined result is still `truncated` when MAX_CONTINUATIONS weren't enough.
+ */
+async function continueTruncatedResponse(
+    prompt: string,
+    first: LlmLlmCallResult,
+    useCache: boolean,
+    llmOptions: LlmCallOptions | undefined,
+    onCall: (result: LlmLlmCallResult) => void
+): Promise<LlmLlmCallResult> {
+    let text = first.text ?? '';
+    let latest = first;
+    for (let n = 1; latest.truncated && n <= MAX_CONTINUATIONS; n++) {
+        console.log(`LLM response cut off after ${text.length} characters; requesting continuation ${n}/${MAX_CONTINUATIONS}.`);
+        latest = await callLlm(getContinuationPrompt(prompt, text), useCache, llmOptions);
+        onCall(latest);
+        if (!latest.success || !latest.text) {
+            return { ...latest, success: false, error: `Continuation ${n} of a truncated response failed: ${latest.error || 'no text returned'}` };
+        }
+        text += latest.text.substring(overlapLength(text, latest.text));
+    }
+    return { ...latest, text, cached: first.cached && latest.cached };
+}
+
+// Helper Function for LLM calls with retry and validation.
+// When a response fails parsing or validation, the next attempt becomes a repair prompt that
+// shows the model its previous answer and the exact error. Repair attempts bypass the cache,
+// so a cached bad answer can't come back. Markdown answers cut off at the output token limit are
+// continued and joined before parsing.
+export async function callLlmWithRetry<T>(
+    promptGenerator: () => string,
+    parser: (text: string) => T,
+    validator: (parsed: T) => boolean | string, // Return true or error message string
+    options: LlmRetryOptions = {}
+): Promise<{ success: boolean; data?: T; error?: string }> {
+    const { maxRetries = 3, useCache = true, contentType = 'yaml', onRetry, llm, onLlmCall, schema } = options;
+    const structured = Boolean(schema) && contentType === 'yaml' && usesStructuredOutput(getLlmProvider(llm?.provider));
+    const llmOptions: LlmCallOptions | undefined = structured && schema ? { ...llm, responseSchema: toResponseJsonSchema(schema) } : llm;
+    const expectedShape = schema ? describeSchema(schema) : undefined;
+    const signal = llm?.signal;
+    let lastError: string = "Failed after multiple retries.";
+    let repair: { response: string; error: string } | null = null; // Set after a parse/validation failure
+    const reportRetry = (attempt: number) => {
+        if (attempt < maxRetries - 1 && onRetry) onRetry(attempt + 1, maxRetries, lastError);
+    };
+    for (let i = 0; i < maxRetries; i++) {
+        if (signal?.aborted) return { success: false, error: CANCELLED_MESSAGE };
+        try {
+            const basePrompt = promptGenerator() + (structured ? STRUCTURED_OUTPUT_INSTRUCTION : '');
+            const prompt = repair ? getRepairPrompt(basePrompt, repair.response, repair.error, structured ? 'json' : contentType, expectedShape) : basePrompt;
+            if (repair) console.log(`LLM attempt ${i + 1}: asking the model to repair its previous response.`);
+            let llmResult = await callLlm(prompt, useCache && !repair, llmOptions);
+            onLlmCall?.(i + 1, llmResult);
+            if (llmResult.success && llmResult.truncated && contentType === 'markdown') {
+                llmResult = await continueTruncatedResponse(prompt, llmResult, useCache && !repair, llmOptions, result => onLlmCall?.(i + 1, result));
+            }
+            if (signal?.aborted) return { success: false, error: CANCELLED_MESSAGE }; // Don't retry or report a cancelled call
+
+            if (!llmResult.success || !llmResult.text) {
+                lastError = llmResult.error || "LLM call failed to return text.";
+                console.error(`LLM attempt ${i + 1} failed: ${lastError}`);
+                reportRetry(i);
+                if (i < maxRetries - 1) await sleep(2000 * (i + 1), signal); // Exponential backoff
+                continue;
+            }
+
+            if (llmResult.truncated && contentType === 'markdown') {
+                repair = { response: llmResult.text, error: `The answer was cut off by the output length limit, even after ${MAX_CONTINUATIONS} continuation(s). Write a more concise version that fits.` };
+                lastError = `LLM response still truncated after ${MAX_CONTINUATIONS} continuation(s) (${llmResult.text.length} characters).`;
+                console.error(`Attempt ${i + 1} failed: ${lastError}`);
+                reportRetry(i);
+                if (i < maxRetries - 1) await sleep(1000, signal);
+                continue; // Retry with a repair prompt asking for a shorter answer
+            }
+
+            // Attempt parsing (extract YAML/JSON etc.)
+            let parsedData: T;
+            try {
+                if (contentType === 'yaml') {
+                    // Extract content within ```yaml ... ``` (structured output is bare JSON, which YAML also parses)
+                    const match = llmResult.text.match(/```(?:yaml|json)\s*([\s\S]*?)\s*```/);
+                    if (!match?.[1] && !structured) {
+                        throw new Error("Could not find YAML block in LLM response.");
+                    }
+                    parsedData = parser(match?.[1] || llmResult.text);
+                } else {
+                    // For markdown content, use the entire response
+                    parsedData = parser(llmResult.text);
+                }
+            } catch (parseError: any) {
+                 if (parseError instanceof SchemaError) {
+                     repair = { response: llmResult.text, error: parseError.message };
+                     lastError = `LLM response validation failed: ${parseError.message}`;
+                     console.error(`Validation attempt ${i + 1} failed: ${lastError}`);
+                     reportRetry(i);
+                     if (i < maxRetries - 1) await sleep(1000, signal);
+                     continue; // Retry with a repair prompt
+                 }
+                 repair = { response: llmResult.text, error: `Failed to parse the response: ${parseError.message}` };
+                 lastError = `Failed to parse LLM response: ${parseError.message}. Response:\n${llmResult.text.substring(0,500)}...`;
+                 console.error(`Parse attempt ${i + 1} failed: ${lastError}`);
+                 reportRetry(i);
+                 if (i < maxRetries - 1) await sleep(1000, signal); // Shorter delay for parsing errors
+                 continue; // Retry with a repair prompt
+            }
+
+            // Attempt validation
+            const validationResult = validator(parsedData);
+            if (validationResult === true) {
+                return { success: true, data: parsedData }; // Success!
+            } else {
+                repair = { response: llmResult.text, error: String(validationResult) };
+                lastError = `LLM response validation failed: ${validationResult}. Parsed:\n${JSON.stringify(parsedData).substring(0,500)}...`;
+                console.error(`Validation attempt ${i + 1} failed: ${lastError}`);
+                reportRetry(i);
+                 if (i < maxRetries - 1) await sleep(1000, signal);
+                 continue; // Retry with a repair prompt
+            }
+
+        } catch (error: any) {
+            lastError = `Error during LLM interaction (attempt ${i + 1}): ${error.message}`;
+            console.error(lastError, error);
+            reportRetry(i);
+            if (i < maxRetries - 1) await sleep(2000 * (i + 1), signal);
+        }
+    }
+    return { success: false, error: lastError };
+}
+
+/**
+ * callLlmWithRetry for YAML/JSON responses described by a schema: the response is parsed and
+ * normalized by the schema, whose error paths go into repair prompts, and providers with
+ * structured output are asked for matching JSON directly.
+ */
+export async function callLlmWithSchema<T>(
+    promptGenerator: () => string,
+    schema: Schema<T>,
+    options: LlmRetryOptions = {}
+): Promise<{ success: boolean; data?: T; error?: string }> {
+    return callLlmWithRetry<T>(
+        promptGenerator,
+        (text) => parseWithSchema(schema, YAML.parse(text)),
+        () => true, // The schema already validated while parsing
+        { ...options, contentType: 'yaml', schema }
+    );
+}
@@ -0,0 +1,276 @@
+// lib/llm-scheduler.ts
+// Shared request scheduler in front of the LLM providers. Every provider call goes through a
+// bucket keyed by provider/model that enforces requests-per-minute, tokens-per-minute and
+// concurrency limits over a sliding one-minute window. Waiting requests are queued per run
+// (queueKey) and served round-robin, so one large generation can't starve the others.
+// When a provider answers 429/503, the whole bucket pauses for the Retry-After delay and the
+// request goes back to the front of its queue.
+import { LlmProviderName } from './types';
+import { ProviderHttpError } from './providers/errors';
+import { estimateTokens } from './usage';
+
+const WINDOW_MS = 60_000;
+const MAX_BACKOFF_MS = 60_000;
+const DEFAULT_QUEUE_KEY = 'default';
+const RATE_LIMIT_RETRIES = Number(process.env.LLM_RATE_LIMIT_RETRIES ?? 3);
+const RATE_LIMITED_STATUSES = new Set([429, 503]);
+
+export interface LlmRateLimits {
+    rpm?: number; // Requests per minute
+    tpm?: number; // Prompt + completion tokens per minute
+    maxConcurrent?: number; // Requests in flight at once
+}
+
+// Conservative defaults for paid tiers; override with LLM_RATE_LIMITS, keyed by provider or
+// provider/model, e.g. '{"gemini": {"rpm": 15}, "openai/gpt-4o": {"tpm": 30000}}'
+const DEFAULT_LIMITS: Record<LlmProviderName, LlmRateLimits> = {
+    gemini: { rpm: 60, tpm: 1_000_000 },
+    openai: { rpm: 500, tpm: 200_000 },
+    ollama: { maxConcurrent: 1 }, // A local server generates one response at a time anyway
+};
+
+interface WindowEntry {
+    at: number;
+    tokens: number;
+}
+
+interface QueuedRequest {
+    estimatedTokens: number;
+    start: (slot: WindowEntry) => void;
+}
+
+interface Bucket {
+    key: string;
+    limits: LlmRateLimits;
+    queues: Map<string, QueuedRequest[]>; // Insertion order is the round-robin order
+    inFlight: number;
+    window: WindowEntry[];
+    pausedUntil: number;
+    timer?: ReturnType<typeof setTimeout>;
+    wakeAt?: number;
+}
+
+export interface LlmSchedulerBucketStats {
+    key: string;
+    limits: LlmRateLimits;
+    queued: number;
+    inFlight: number;
+    queues: Record<string, number>; // Waiting requests per queue key (e.g. job id)
+    requestsLastMinute: number;
+    tokensLastMinute: number;
+    pausedUntil: string | null;
+}
+
+export interface LlmSchedulerStats {
+    queued: number;
+    inFlight: number;
+    buckets: LlmSchedulerBucketStats[];
+}
+
+export interface ScheduledRequest {
+    provider: LlmProviderName;
+    model: string;
+    prompt: string;
+    queueKey?: string;
+    signal?: AbortSignal; // Leaves the queue when aborted
+}
+
+// Kept on globalThis so dev hot reloads share one scheduler with in-flight generations
+const globalScheduler = globalThis as typeof globalThis & { __doctatoLlmBuckets?: Map<string, Bucket> };
+const buckets = globalScheduler.__doctatoLlmBuckets ??= new Map<string, Bucket>();
+
+// Every limit must allow at least one request (or token); a limit of 0 would never let the queue move
+function validLimits(key: string, value: unknown): LlmRateLimits {
+    const limits: LlmRateLimits = {};
+    if (!value || typeof value !== 'object') {
+        console.warn(`Ignoring LLM_RATE_LIMITS entry "${key}": expected an object.`);
+        return limits;
+    }
+    for (const field of ['rpm', 'tpm', 'maxConcurrent'] as const) {
+        const limit = (value as Record<string, unknown>)[field];
+        if (limit === undefined) continue;
+        if (typeof limit === 'number' && Number.isFinite(limit) && limit >= 1) {
+            limits[field] = limit;
+        } else {
+            console.warn(`Ignoring LLM_RATE_LIMITS "${key}".${field} = ${JSON.stringify(limit)}: expected a number of at least 1.`);
+        }
+    }
+    return limits;
+}
+
+function loadLimitOverrides(): Record<string, LlmRateLimits> {
+    const override = process.env.LLM_RATE_LIMITS;
+    if (!override) return {};
+    try {
+        const parsed = JSON.parse(override);
+        return Object.fromEntries(Object.entries(parsed ?? {}).map(([key, value]) => [key, validLimits(key, value)]));
+    } catch (error: any) {
+        console.warn(`Ignoring invalid LLM_RATE_LIMITS: ${error.message}`);
+        return {};
+    }
+}
+
+const limitOverrides = loadLimitOverrides();
+
+function resolveLimits(provider: LlmProviderName, model: string): LlmRateLimits {
+    return { ...DEFAULT_LIMITS[provider], ...limitOverrides[provider], ...limitOverrides[`${provider}/${model}`] };
+}
+
+function getBucket(provider: LlmProviderName, model: string): Bucket {
+    const key = `${provider}/${model}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+        bucket = { key, limits: resolveLimits(provider, model), queues: new Map(), inFlight: 0, window: [], pausedUntil: 0 };
+        buckets.set(key, bucket);
+    }
+    return bucket;
+}
+
+function pruneWindow(bucket: Bucket, now: number): void {
+    while (bucket.window.length > 0 && now - bucket.window[0].at >= WINDOW_MS) bucket.window.shift();
+}
+
+function wakeLater(bucket: Bucket, at: number): void {
+    if (bucket.timer && bucket.wakeAt !== undefined && bucket.wakeAt <= at) return;
+    if (bucket.timer) clearTimeout(bucket.timer);
+    bucket.wakeAt = at;
+    bucket.timer = setTimeout(() => {
+        bucket.timer = undefined;
+        bucket.wakeAt = undefined;
+        dispatch(bucket);
+    }, Math.max(at - Date.now(), 0));
+}
+
+// Starts as many queued requests as the limits allow, taking one per queue in turn.
+function dispatch(bucket: Bucket): void {
+    while (bucket.queues.size > 0) {
+        const now = Date.now();
+        if (now < bucket.pausedUntil) return wakeLater(bucket, bucket.pausedUntil);
+
+        const { rpm, tpm, maxConcurrent } = bucket.limits;
+        if (maxConcurrent && bucket.inFlight >= maxConcurrent) return; // release() dispatches again
+
+        pruneWindow(bucket, now);
+        const [queueKey, queue] = bucket.queues.entries().next().value!;
+        const next = queue[0];
+        const windowFull = rpm !== undefined && bucket.window.length >= rpm;
+        const windowTokens = bucket.window.reduce((sum, entry) => sum + entry.tokens, 0);
+        // A request bigger than the whole TPM limit still runs once the window is empty
+        const tokensFull = tpm !== undefined && bucket.window.length > 0 && windowTokens + next.estimatedTokens > tpm;
+        if (windowFull || tokensFull) return wakeLater(bucket, bucket.window[0].at + WINDOW_MS);
+
+        queue.shift();
+        bucket.queues.delete(queueKey);
+        if (queue.length > 0) bucket.queues.set(queueKey, queue); // Back of the rotation
+
+        const slot = { at: now, tokens: next.estimatedTokens };
+        bucket.window.push(slot);
+        bucket.inFlight++;
+        next.start(slot);
+    }
+}
+
+function acquire(bucket: Bucket, queueKey: string, estimatedTokens: number, retry: boolean, signal?: AbortSignal): Promise<WindowEntry> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new Error("Request cancelled while queued."));
+        const queue = bucket.queues.get(queueKey) ?? [];
+        const onAbort = () => {
+            const position = queue.indexOf(request);
+            if (position !== -1) queue.splice(position, 1);
+            if (queue.length === 0 && bucket.queues.get(queueKey) === queue) bucket.queues.delete(queueKey);
+            reject(new Error("Request cancelled while queued."));
+        };
+        const request: QueuedRequest = {
+            estimatedTokens,
+            start: slot => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(slot);
+            },
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        if (retry) {
+            // Rate-limited requests go ahead of everything else that's waiting
+            queue.unshift(request);
+            bucket.queues.delete(queueKey);
+            bucket.queues = new Map([[queueKey, queue], ...bucket.queues]);
+        } else {
+            queue.push(request);
+            if (!bucket.queues.has(queueKey)) bucket.queues.set(queueKey, queue);
+        }
+        dispatch(bucket);
+    });
+}
+
+function release(bucket: Bucket): void {
+    bucket.inFlight--;
+    dispatch(bucket);
+}
+
+function isRateLimited(error: unknown): error is ProviderHttpError {
+    return error instanceof ProviderHttpError && RATE_LIMITED_STATUSES.has(error.status);
+}
+
+/**
+ * Runs `call` once the provider/model bucket has room for it, retrying (after pausing the
+ * bucket) when the provider reports a rate limit. `usedTokens` reads the real token usage from
+ * the result so the tokens-per-minute window reflects what the call actually cost.
+ * Errors other than rate limits are rethrown unchanged.
+ */
+export async function scheduleLlmRequest<T>(
+    request: ScheduledRequest,
+    call: () => Promise<T>,
+    usedTokens: (result: T) => number | undefined = () => undefined
+): Promise<T> {
+    const bucket = getBucket(request.provider, request.model);
+    const queueKey = request.queueKey || DEFAULT_QUEUE_KEY;
+    const estimatedTokens = estimateTokens(request.prompt);
+
+    for (let attempt = 1; ; attempt++) {
+        const queuedAt = Date.now();
+        const slot = await acquire(bucket, queueKey, estimatedTokens, attempt > 1, request.signal);
+        const waitedMs = Date.now() - queuedAt;
+        if (waitedMs >= 1000) {
+            console.log(`LLM scheduler: ${bucket.key} request for ${queueKey} waited ${(waitedMs / 1000).toFixed(1)}s.`);
+        }
+
+        try {
+            const result = await call();
+            slot.tokens = usedTokens(result) || slot.tokens;
+            return result;
+        } catch (error) {
+            if (!isRateLimited(error) || attempt > RATE_LIMIT_RETRIES || request.signal?.aborted) throw error;
+            const delayMs = error.retryAfterMs ?? Math.min(1000 * 2 ** attempt, MAX_BACKOFF_MS);
+            bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + delayMs);
+            console.warn(`LLM scheduler: ${bucket.key} rate limited (${error.status}); pausing ${(delayMs / 1000).toFixed(1)}s before retry ${attempt}/${RATE_LIMIT_RETRIES}.`);
+        } finally {
+            release(bucket);
+        }
+    }
+}
+
+/**
+ * Queue depth, in-flight requests and the current window usage per provider/model, for monitoring.
+ */
+export function getLlmSchedulerStats(): LlmSchedulerStats {
+    const now = Date.now();
+    const bucketStats = [...buckets.values()].map(bucket => {
+        pruneWindow(bucket, now);
+        const queues = Object.fromEntries([...bucket.queues].map(([key, queue]) => [key, queue.length]));
+        return {
+            key: bucket.key,
+            limits: bucket.limits,
+            queued: Object.values(queues).reduce((sum, depth) => sum + depth, 0),
+            inFlight: bucket.inFlight,
+            queues,
+            requestsLastMinute: bucket.window.length,
+            tokensLastMinute: bucket.window.reduce((sum, entry) => sum + entry.tokens, 0),
+            pausedUntil: bucket.pausedUntil > now ? new Date(bucket.pausedUntil).toISOString() : null,
+        };
+    });
+    return {
+        queued: bucketStats.reduce((sum, b) => sum + b.queued, 0),
+        inFlight: bucketStats.reduce((sum, b) => sum + b.inFlight, 0),
+        buckets: bucketStats,
+    };
+}
@@ -1,30 +1,13 @@
 // lib/llm.ts
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai";
-import { LlmLlmCallResult } from './types';
-
-// Basic in-memory cache (Replace with Redis/etc. for production)
-const cache = new Map<string, string>();
-
-const API_KEY = process.env.GEMINI_API_KEY;
-const MODEL_NAME = process.env.GEMINI_MODEL || "gemini-1.5-flash"; // Use Flash default, cheaper/faster
-
-if (!API_KEY) {
-    console.error("Error: GEMINI_API_KEY environment variable is not set.");
-}
-
-const genAI = API_KEY ? new GoogleGenerativeAI(API_KEY) : null;
-const model = genAI ? genAI.getGenerativeModel({ model: MODEL_NAME }) : null;
-
-// Configuration for safety settings - adjust as needed
-const safetySettings = [
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-];
-
-// Configuration for generation - adjust temperature, etc.
-const generationConfig = {
+import { LlmCallOptions, LlmGenerationConfig, LlmLlmCallResult } from './types';
+import { getLlmProvider, usesStructuredOutput } from './providers';
+import { fixtureKey, getLlmMode, readFixture, recordMiss, writeFixture } from './llm-fixtures';
+import { getCachedResponse, setCachedResponse } from './llm-cache';
+import { scheduleLlmRequest } from './llm-scheduler';
+import { CANCELLED_MESSAGE } from './utils';
+
+// Configuration for generation - adjust temperature, etc. Stages can override it (see model-routing.ts)
+export const DEFAULT_GENERATION_CONFIG: LlmGenerationConfig = {
   temperature: 0.3, // Lower temperature for more deterministic code analysis
   topK: 1,
   topP: 1,
@@ -32,80 +15,108 @@ const generationConfig = {
 };
 
 
-export async function callLlm(prompt: string, useCache: boolean = true): Promise<LlmLlmCallResult> {
-    console.log("LLM Call initiated...");
+export async function callLlm(prompt: string, useCache: boolean = true, options: LlmCallOptions = {}): Promise<LlmLlmCallResult> {
+    const provider = getLlmProvider(options.provider);
+    const modelName = options.model || provider.defaultModel;
+    const generationConfig = { ...DEFAULT_GENERATION_CONFIG, ...options.generationConfig };
+    const meta = { provider: provider.name, model: modelName }; // Attached to every result for usage accounting
+    console.log(`LLM Call initiated (${provider.name}/${modelName})...`);
     // Log prompt (careful with large prompts in production logs)
     // console.log("PROMPT:", prompt.substring(0, 500) + "..."); // Log snippet
 
-    if (!model || !genAI) {
-        return { success: false, error: "LLM client not initialized. Check API Key." };
+    const mode = getLlmMode();
+    if (mode === 'replay') {
+        // Offline: answer only from recorded fixtures, never from the provider
+        const fixture = await readFixture(prompt);
+        if (!fixture) {
+            const missPath = await recordMiss(prompt).catch(() => 'unavailable');
+            console.error(`LLM REPLAY MISS: no fixture for prompt ${fixtureKey(prompt)}. Prompt saved to ${missPath}`);
+            return { ...meta, success: false, error: `LLM replay miss: no fixture for prompt hash ${fixtureKey(prompt)} (prompt saved to ${missPath}).` };
+        }
+        console.log(`LLM Replay HIT (${fixture.key.substring(0, 12)})`);
+        return { ...meta, success: true, text: fixture.response, cached: true, truncated: fixture.truncated };
     }
 
-    // Check cache
-    if (useCache && cache.has(prompt)) {
-        console.log("LLM Cache HIT");
-        const cachedResponse = cache.get(prompt)!;
-        // console.log("RESPONSE (cached):", cachedResponse.substring(0, 500) + "...");
-        return { success: true, text: cachedResponse };
+    if (options.signal?.aborted) {
+        return { ...meta, success: false, error: CANCELLED_MESSAGE };
     }
-    console.log("LLM Cache MISS");
 
-    try {
-        const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            generationConfig,
-            safetySettings,
-        });
-
-        // --- Detailed Error Handling ---
-        if (!result.response) {
-            console.error("LLM Error: No response object found.", result);
-             // Check for specific block reasons if available
-            const blockReason = result.promptFeedback?.blockReason;
-            const safetyRatings = result.promptFeedback?.safetyRatings;
-            let errorMsg = "LLM Error: No response received.";
-            if (blockReason) {
-                errorMsg += ` Block Reason: ${blockReason}.`;
-            }
-            if (safetyRatings) {
-                errorMsg += ` Safety Ratings: ${JSON.stringify(safetyRatings)}`;
+    if (!provider.isConfigured()) {
+        return { ...meta, success: false, error: `LLM client not initialized for provider '${provider.name}'. Check API Key.` };
+    }
+
+    // Check the persistent cache (keyed by provider + model + generation config + prompt)
+    const cacheKeyParts = { provider: provider.name, model: modelName, generationConfig, prompt };
+    if (useCache) {
+        const cachedResponse = await getCachedResponse(cacheKeyParts);
+        if (cachedResponse !== null) {
+            console.log("LLM Cache HIT");
+            // console.log("RESPONSE (cached):", cachedResponse.response.substring(0, 500) + "...");
+            if (mode === 'record') {
+                // A recording made with a warm cache must still contain every prompt the run needs
+                await writeFixture(prompt, cachedResponse.response, provider.name, modelName, cachedResponse.truncated);
+                console.log(`LLM Fixture RECORDED from cache (${fixtureKey(prompt).substring(0, 12)})`);
             }
-             return { success: false, error: errorMsg };
+            return { ...meta, success: true, text: cachedResponse.response, cached: true, truncated: cachedResponse.truncated };
         }
+        console.log("LLM Cache MISS");
+    }
 
-        const response = result.response;
-
-        // Check if the response finished successfully
-        if (response.promptFeedback?.blockReason) {
-             console.error("LLM Error: Prompt blocked.", response.promptFeedback);
-             return { success: false, error: `LLM Error: Prompt blocked due to ${response.promptFeedback.blockReason}. ${JSON.stringify(response.promptFeedback.safetyRatings)}` };
+    try {
+        // Waits for the provider/model rate limits and retries on 429s
+        const response = await scheduleLlmRequest(
+            { provider: provider.name, model: modelName, prompt, queueKey: options.queueKey, signal: options.signal },
+            () => provider.generate(prompt, {
+                model: modelName,
+                generationConfig,
+                responseSchema: usesStructuredOutput(provider) ? options.responseSchema : undefined,
+                signal: options.signal,
+            }),
+            result => result.usage && result.usage.promptTokens + result.usage.completionTokens
+        );
+
+        // --- Detailed Error Handling (normalized across providers) ---
+        if (response.finishReason === 'blocked') {
+             console.error("LLM Error: Prompt blocked.", response);
+             return { ...meta, usage: response.usage, success: false, error: `LLM Error: Prompt blocked due to ${response.rawFinishReason}. ${response.details ?? ''}`.trim() };
         }
-         if (response.candidates?.[0]?.finishReason !== 'STOP' && response.candidates?.[0]?.finishReason !== 'MAX_TOKENS') {
-            console.error("LLM Error: Response did not finish normally.", response.candidates?.[0]);
-            return { success: false, error: `LLM Error: Incomplete response. Finish Reason: ${response.candidates?.[0]?.finishReason ?? 'Unknown'}. ${JSON.stringify(response.candidates?.[0]?.safetyRatings)}` };
+        if (response.finishReason !== 'stop' && response.finishReason !== 'max_tokens') {
+            console.error("LLM Error: Response did not finish normally.", response);
+            return { ...meta, usage: response.usage, success: false, error: `LLM Error: Incomplete response. Finish Reason: ${response.rawFinishReason ?? 'Unknown'}. ${response.details ?? ''}`.trim() };
         }
 
-        // Extract text safely
-        const responseText = response.text(); // Use the built-in text() method
-
+        const responseText = response.text;
+        // Accepted, but flagged: callers that need the whole text ask the model to continue
+        const truncated = response.finishReason === 'max_tokens';
+        if (truncated) console.warn(`LLM Warning: Response stopped at the output token limit (${generationConfig.maxOutputTokens} tokens).`);
 
         if (!responseText) {
              console.error("LLM Error: Response text is empty.", response);
-             return { success: false, error: "LLM Error: Received empty response text." };
+             return { ...meta, usage: response.usage, success: false, error: "LLM Error: Received empty response text." };
         }
 
         // console.log("RESPONSE (API):", responseText.substring(0, 500) + "..."); // Log snippet
 
+        if (mode === 'record') {
+            await writeFixture(prompt, responseText, provider.name, modelName, truncated);
+            console.log(`LLM Fixture RECORDED (${fixtureKey(prompt).substring(0, 12)})`);
+        }
+
         // Update cache
         if (useCache) {
-            cache.set(prompt, responseText);
+            await setCachedResponse(cacheKeyParts, responseText, truncated)
+                .catch(error => console.error("LLM Cache write failed:", error)); // A cache failure shouldn't fail the call
             console.log("LLM Cache UPDATED");
         }
 
-        return { success: true, text: responseText };
+        return { ...meta, success: true, text: responseText, usage: response.usage, truncated };
 
     } catch (error: any) {
+        if (options.signal?.aborted) {
+            console.log("LLM call cancelled.");
+            return { ...meta, success: false, error: CANCELLED_MESSAGE };
+        }
         console.error("LLM API Call Failed:", error);
-        return { success: false, error: `LLM API Error: ${error.message || 'Unknown error'}` };
+        return { ...meta, success: false, error: `LLM API Error: ${error.message || 'Unknown error'}` };
     }
-}
\ No newline at end of file
+}
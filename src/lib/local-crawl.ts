@@ -99,6 +99,8 @@ export async function processUploadedZip(
         });
 
         await Promise.all(filePromises);
+        // Reads finish in arbitrary order; sort so file indices (and prompts) are stable between runs
+        files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
 
         console.log(`Finished processing zip. Got ${files.length} files, skipped ${skippedFiles.length}.`);
         return { files, projectName, skippedFiles };
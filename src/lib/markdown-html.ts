@@ -0,0 +1,110 @@
+// lib/markdown-html.ts
+// Markdown to HTML for the tutorial exports, rendered like the built-in viewer: GFM, highlighted
+// code, mermaid blocks kept as source for mermaid.js to draw in the browser (or shown as their
+// text where no script runs), and links between tutorial files pointed at the exported files.
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeStringify from 'rehype-stringify';
+import { visit } from 'unist-util-visit';
+import type { Element, ElementContent, Nodes, Root } from 'hast';
+
+export interface RenderedMarkdown {
+    html: string;
+    text: string; // Plain text of the page (prose and code, not diagrams), for search
+    hasMermaid: boolean;
+}
+
+export interface MarkdownHtmlOptions {
+    linkTarget: (filename: string) => string | null; // Exported name of a linked tutorial file ("02_X.md"), or null to keep the link
+    diagrams?: 'mermaid' | 'source'; // 'source': a captioned figure with the diagram's text, for readers without mermaid.js
+    xhtml?: boolean; // Well-formed XML output (EPUB): void elements closed, task list checkboxes as text
+}
+
+function nodeText(node: Nodes): string {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'root' || node.type === 'element') return node.children.map(child => nodeText(child)).join('');
+    return '';
+}
+
+function hasClass(node: ElementContent | undefined, className: string): boolean {
+    const classes = node?.type === 'element' ? node.properties?.className : undefined;
+    return Array.isArray(classes) && classes.includes(className);
+}
+
+// A malformed escape like "%E0" can't name a tutorial file, so the link is left as it is
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+// Rewrites links between tutorial files and turns ```mermaid blocks into <pre class="mermaid">
+function rehypeTutorialExport(options: MarkdownHtmlOptions, found: { mermaid: boolean }) {
+    return (tree: Root) => {
+        visit(tree, 'element', (node: Element, index, parent) => {
+            if (node.tagName === 'a' && typeof node.properties.href === 'string') {
+                const href = node.properties.href;
+                if (/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+                    node.properties.target = '_blank';
+                    node.properties.rel = ['noopener', 'noreferrer'];
+                    return;
+                }
+                const [file, anchor] = href.replace(/^\.\//, '').split('#');
+                const target = file ? options.linkTarget(safeDecode(file)) : null;
+                if (target) node.properties.href = anchor ? `${target}#${anchor}` : target;
+            } else if (node.tagName === 'pre' && hasClass(node.children[0], 'language-mermaid') && parent && index !== undefined) {
+                found.mermaid = true;
+                const diagram: Element = {
+                    type: 'element',
+                    tagName: 'pre',
+                    properties: { className: ['mermaid'] },
+                    children: [{ type: 'text', value: nodeText(node.children[0]).trim() }],
+                };
+                parent.children[index] = options.diagrams !== 'source' ? diagram : {
+                    type: 'element',
+                    tagName: 'figure',
+                    properties: { className: ['diagram'] },
+                    children: [
+                        diagram,
+                        { type: 'element', tagName: 'figcaption', properties: {}, children: [{ type: 'text', value: 'Diagram (Mermaid source)' }] },
+                    ],
+                };
+                return 'skip';
+            } else if (options.xhtml && node.tagName === 'input' && node.properties.type === 'checkbox' && parent && index !== undefined) {
+                // Boolean attributes (`checked`, `disabled`) have no value in HTML, which isn't valid XML
+                parent.children[index] = { type: 'text', value: node.properties.checked ? '\u2611' : '\u2610' };
+            }
+        });
+    };
+}
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'pre', 'blockquote', 'tr', 'td', 'th', 'br', 'hr']);
+
+// Text for the search index; diagrams are markup, not content
+function searchableText(tree: Root): string {
+    const parts: string[] = [];
+    visit(tree, (node) => {
+        if (node.type === 'element' && node.tagName === 'pre' && hasClass(node, 'mermaid')) return 'skip';
+        if (node.type === 'element' && BLOCK_TAGS.has(node.tagName)) parts.push(' ');
+        if (node.type === 'text') parts.push(node.value);
+    });
+    return parts.join('').replace(/\s+/g, ' ').trim();
+}
+
+export async function renderMarkdownHtml(markdown: string, options: MarkdownHtmlOptions): Promise<RenderedMarkdown> {
+    const found = { mermaid: false };
+    const processor = unified()
+        .use(remarkParse)
+        .use(remarkGfm)
+        .use(remarkRehype)
+        .use(() => rehypeTutorialExport(options, found))
+        .use(rehypeHighlight, { plainText: ['mermaid'] });
+    const tree = await processor.run(processor.parse(markdown)) as Root;
+    const html = unified().use(rehypeStringify, { closeSelfClosing: options.xhtml }).stringify(tree);
+    return { html, text: searchableText(tree), hasMermaid: found.mermaid };
+}
@@ -0,0 +1,143 @@
+// lib/model-routing.ts
+// Per-stage model routing: each pipeline stage that calls the LLM can run on its own provider,
+// model and generation settings, e.g. a strong reasoning model for the structuring steps
+// (abstractions, relationships, ordering) and a cheaper, faster one for chapter prose.
+// Settings are layered per field, later layers winning:
+//   built-in defaults < config file (`llmStages` in doctato.config.json) < LLM_STAGE_CONFIG
+//   < the request's provider/model < the request's per-stage settings (Advanced Options)
+import { readFileSync } from 'fs';
+import path from 'path';
+import { GenerationInput, LlmGenerationConfig, LlmStage, LlmStageOverrides, LlmStageSettings, ResolvedStageLlm } from './types';
+import { getLlmProvider, isLlmProviderName, LLM_PROVIDER_NAMES } from './providers';
+import { DEFAULT_GENERATION_CONFIG } from './llm';
+
+export const LLM_STAGES: LlmStage[] = ['abstractions', 'relationships', 'ordering', 'chapters', 'summaries'];
+
+// Valid range of each generation setting; topK and maxOutputTokens are integers
+const GENERATION_LIMITS: Record<keyof LlmGenerationConfig, { min: number; max: number; integer: boolean }> = {
+    temperature: { min: 0, max: 2, integer: false },
+    topP: { min: 0, max: 1, integer: false },
+    topK: { min: 1, max: 1000, integer: true },
+    maxOutputTokens: { min: 1, max: 1_000_000, integer: true },
+};
+const GENERATION_KEYS = Object.keys(GENERATION_LIMITS) as (keyof LlmGenerationConfig)[];
+
+export function isLlmStage(stage: unknown): stage is LlmStage {
+    return typeof stage === 'string' && (LLM_STAGES as string[]).includes(stage);
+}
+
+function parseStageSettings(stage: string, value: unknown): LlmStageSettings {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`${stage}: expected an object with provider, model or generation settings.`);
+    }
+    const settings: LlmStageSettings = {};
+    for (const [key, raw] of Object.entries(value)) {
+        if (raw === undefined || raw === null || raw === '') continue; // Unset; falls through to the next layer
+        if (key === 'provider') {
+            if (!isLlmProviderName(raw)) throw new Error(`${stage}.provider: unknown provider '${raw}'. Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}.`);
+            settings.provider = raw;
+        } else if (key === 'model') {
+            if (typeof raw !== 'string') throw new Error(`${stage}.model: expected a model name.`);
+            if (raw.trim()) settings.model = raw.trim();
+        } else if (key in GENERATION_LIMITS) {
+            const limits = GENERATION_LIMITS[key as keyof LlmGenerationConfig];
+            const number = typeof raw === 'string' ? Number(raw) : raw;
+            if (typeof number !== 'number' || !Number.isFinite(number) || number < limits.min || number > limits.max || (limits.integer && !Number.isInteger(number))) {
+                throw new Error(`${stage}.${key}: expected ${limits.integer ? 'an integer' : 'a number'} from ${limits.min} to ${limits.max}, got ${JSON.stringify(raw)}.`);
+            }
+            settings[key as keyof LlmGenerationConfig] = number;
+        } else {
+            throw new Error(`${stage}: unknown setting '${key}'. Expected provider, model or one of: ${GENERATION_KEYS.join(', ')}.`);
+        }
+    }
+    return settings;
+}
+
+/**
+ * Validates per-stage overrides, e.g. `{"chapters": {"model": "gemini-2.5-flash", "temperature": 0.7}}`.
+ * Shared by the config file, LLM_STAGE_CONFIG and the form.
+ */
+export function parseLlmStageOverrides(value: unknown): { success: boolean; data?: LlmStageOverrides; error?: string } {
+    if (value === undefined || value === null) return { success: true, data: {} };
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        return { success: false, error: `Expected an object keyed by stage (${LLM_STAGES.join(', ')}).` };
+    }
+    const overrides: LlmStageOverrides = {};
+    try {
+        for (const [stage, settings] of Object.entries(value)) {
+            if (!isLlmStage(stage)) throw new Error(`Unknown stage '${stage}'. Expected one of: ${LLM_STAGES.join(', ')}.`);
+            overrides[stage] = parseStageSettings(stage, settings);
+        }
+    } catch (error: any) {
+        return { success: false, error: error.message };
+    }
+    return { success: true, data: overrides };
+}
+
+// `llmStages` from DOCTATO_CONFIG, or doctato.config.json in the working directory if present
+function loadConfigFileStages(): LlmStageOverrides {
+    const configPath = path.resolve(process.env.DOCTATO_CONFIG || 'doctato.config.json');
+    let config: { llmStages?: unknown };
+    try {
+        config = JSON.parse(readFileSync(configPath, 'utf-8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT' && !process.env.DOCTATO_CONFIG) return {};
+        console.warn(`Ignoring config file ${configPath}: ${error.message}`);
+        return {};
+    }
+    const parsed = parseLlmStageOverrides(config.llmStages);
+    if (!parsed.success) console.warn(`Ignoring llmStages in ${configPath}: ${parsed.error}`);
+    return parsed.data ?? {};
+}
+
+function loadEnvStages(): LlmStageOverrides {
+    const override = process.env.LLM_STAGE_CONFIG;
+    if (!override) return {};
+    let value: unknown;
+    try {
+        value = JSON.parse(override);
+    } catch (error: any) {
+        console.warn(`Ignoring invalid LLM_STAGE_CONFIG: ${error.message}`);
+        return {};
+    }
+    const parsed = parseLlmStageOverrides(value);
+    if (!parsed.success) console.warn(`Ignoring invalid LLM_STAGE_CONFIG: ${parsed.error}`);
+    return parsed.data ?? {};
+}
+
+const configFileStages = loadConfigFileStages();
+const envStages = loadEnvStages();
+
+/**
+ * Provider, model and generation config a stage runs with for this request.
+ * A layer that sets a provider also resets the model, so a model name never reaches the wrong provider.
+ */
+export function resolveStageLlm(stage: LlmStage, input: Pick<GenerationInput, 'llmProvider' | 'llmModel' | 'llmStages'>): ResolvedStageLlm {
+    const layers: (LlmStageSettings | undefined)[] = [
+        configFileStages[stage],
+        envStages[stage],
+        { provider: input.llmProvider || undefined, model: input.llmModel || undefined },
+        input.llmStages?.[stage],
+    ];
+    let providerName: LlmStageSettings['provider'];
+    let model: string | undefined;
+    const generationConfig: LlmGenerationConfig = { ...DEFAULT_GENERATION_CONFIG };
+    for (const layer of layers) {
+        if (!layer) continue;
+        if (layer.provider) {
+            providerName = layer.provider;
+            model = layer.model;
+        } else if (layer.model) {
+            model = layer.model;
+        }
+        for (const key of GENERATION_KEYS) {
+            if (layer[key] !== undefined) generationConfig[key] = layer[key];
+        }
+    }
+    const provider = getLlmProvider(providerName);
+    return { provider: provider.name, model: model || provider.defaultModel, generationConfig };
+}
+
+export function resolveAllStageLlms(input: Pick<GenerationInput, 'llmProvider' | 'llmModel' | 'llmStages'>): Record<LlmStage, ResolvedStageLlm> {
+    return Object.fromEntries(LLM_STAGES.map(stage => [stage, resolveStageLlm(stage, input)])) as Record<LlmStage, ResolvedStageLlm>;
+}
@@ -0,0 +1,5 @@
+// lib/paths.ts
+import path from 'path';
+
+// Root for everything the server persists locally (jobs, caches, ...)
+export const DATA_DIR = process.env.DOCTATO_DATA_DIR || path.join(process.cwd(), '.doctato');
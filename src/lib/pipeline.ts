@@ -0,0 +1,445 @@
+// lib/pipeline.ts
+import {
+    GenerationInput, Abstraction, RelationshipData,
+    ChapterInfo, ChapterSummary, FailedChapter, FileData, FetchedFilesResult, GenerationReport, LlmCallOptions, LlmCallRecord,
+    LlmLlmCallResult, LlmStage, PipelineStage, ProgressUpdate, TutorialPlan, TutorialState
+} from './types';
+import { DEFAULT_INCLUDE_PATTERNS, DEFAULT_EXCLUDE_PATTERNS, DEFAULT_MAX_FILE_SIZE } from './patterns';
+import { crawlGitHubFiles } from './github';
+import { processUploadedZip } from './local-crawl';
+import { callLlmWithSchema } from './llm-retry';
+import { chapterOrderSchema, relationshipsSchema } from './schemas';
+import { identifyAbstractions } from './abstractions';
+import { plannedChapterSummary, summarizeChapter } from './chapter-summaries';
+import { buildIndexMarkdown, chapterPlaceholder, formatChapterListing, withAttribution, writeChapterMarkdown } from './chapters';
+import {
+    getAnalyzeRelationshipsPrompt,
+    getOrderChaptersPrompt
+} from './prompts';
+import {
+    getContentForIndices, sanitizeFilename, ensureAllAbstractionsInRelationships, mapWithConcurrency, CANCELLED_MESSAGE
+} from './utils';
+import { resolveContextTokenBudget } from './context-budget';
+import { getLlmProvider } from './providers';
+import { LLM_STAGES, resolveAllStageLlms } from './model-routing';
+import { buildGenerationReport, formatUsd, toCallRecord } from './usage';
+import JSZip from 'jszip';
+import { randomUUID } from 'crypto';
+
+export interface PipelineResult {
+    success: boolean;
+    zipBuffer?: Buffer; // The generated tutorial zip
+    fileName?: string;
+    projectName?: string;
+    report?: GenerationReport; // Token usage and cost, also written to the zip
+    failedChapters?: FailedChapter[]; // Chapters packaged as placeholders; the rest of the tutorial is complete
+    state?: TutorialState; // Saved with the job, for regenerating single chapters
+    error?: string;
+    cancelled?: boolean; // Stopped through `signal` rather than failed
+}
+
+export interface PipelineOptions {
+    runId?: string; // Names this run's queue in the LLM scheduler (the job id for background jobs)
+    signal?: AbortSignal; // Stops crawling, queued/in-flight LLM calls and chapter writing
+    // With `input.reviewPlan`: called after ordering; resolves with the (edited) plan to write, or null if cancelled
+    reviewPlan?: (plan: TutorialPlan) => Promise<TutorialPlan | null>;
+}
+
+const DEFAULT_CHAPTER_CONCURRENCY = 3;
+
+// Chapters written at once: the request's value, then CHAPTER_CONCURRENCY; 1 means sequential
+function resolveChapterConcurrency(requested?: number): number {
+    const value = typeof requested === 'number' && requested > 0 ? requested : Number(process.env.CHAPTER_CONCURRENCY);
+    return value > 0 ? Math.floor(value) : DEFAULT_CHAPTER_CONCURRENCY;
+}
+
+/**
+ * Step 1 of the pipeline on its own: crawls the repo or unpacks the zip using the
+ * effective include/exclude patterns and size limit. Also used by the dry-run preview.
+ */
+export async function fetchSourceFiles(
+    input: GenerationInput,
+    onProgress: (update: ProgressUpdate) => void = () => {},
+    signal?: AbortSignal
+): Promise<FetchedFilesResult> {
+    const {
+        sourceType,
+        repoUrl,
+        uploadedFile,
+        projectName: projectNameInput,
+        githubToken, // User might provide this
+        includePatterns: includeInput,
+        excludePatterns: excludeInput,
+        maxFileSize: maxFileSizeInput,
+    } = input;
+
+    const effectiveInclude = includeInput && includeInput.length > 0 ? includeInput : DEFAULT_INCLUDE_PATTERNS;
+    const effectiveExclude = excludeInput && excludeInput.length > 0 ? excludeInput : DEFAULT_EXCLUDE_PATTERNS;
+    const effectiveMaxSize = typeof maxFileSizeInput === 'number' && !isNaN(maxFileSizeInput) ? maxFileSizeInput : DEFAULT_MAX_FILE_SIZE;
+    const token = githubToken || process.env.GITHUB_TOKEN; // Prioritize user input, fallback to env
+
+    console.log(`Starting file fetching (${sourceType})...`);
+    onProgress({ stage: 'fetching', type: 'stage', message: sourceType === 'repo' ? "Fetching repository files..." : "Reading uploaded zip..." });
+    let fetchResult: FetchedFilesResult;
+    if (sourceType === 'repo' && repoUrl) {
+        fetchResult = await crawlGitHubFiles(repoUrl, token, effectiveInclude, effectiveExclude, effectiveMaxSize, (fetched, total) => {
+            onProgress({ stage: 'fetching', message: `Fetching file ${fetched}/${total}...`, current: fetched, total });
+        }, signal);
+    } else if (sourceType === 'upload' && uploadedFile) {
+        fetchResult = await processUploadedZip(uploadedFile, projectNameInput, effectiveInclude, effectiveExclude, effectiveMaxSize);
+    } else {
+        throw new Error("Invalid source type or missing data."); // Should be caught by initial validation
+    }
+
+    // Use derived name if not provided
+    return { ...fetchResult, projectName: projectNameInput || fetchResult.projectName };
+}
+
+/**
+ * Runs the full crawl -> abstractions -> relationships -> ordering -> [review] -> chapters -> zip pipeline.
+ * Progress is reported through `onProgress`; failures are returned, not thrown. Chapters that fail
+ * are packaged as placeholders and listed in `failedChapters` rather than failing the run.
+ * Aborting `options.signal` stops the run between (and inside) steps with `cancelled: true`.
+ */
+export async function runTutorialPipeline(
+    input: GenerationInput,
+    onProgress: (update: ProgressUpdate) => void = () => {},
+    options: PipelineOptions = {}
+): Promise<PipelineResult> {
+    const {
+        repoUrl,
+        uploadedFile,
+        language = "english",
+        contextTokenBudget,
+        discoveryMode,
+        chapterConcurrency
+    } = input;
+
+    // Every call from this run shares one scheduler queue, so concurrent runs take turns
+    const { signal } = options;
+    const queueKey = options.runId || randomUUID();
+    // Each stage may run on its own provider/model/generation config (see model-routing.ts)
+    const stageLlms = resolveAllStageLlms(input);
+    const llmFor = (stage: LlmStage): LlmCallOptions => ({ ...stageLlms[stage], queueKey, signal });
+    LLM_STAGES.forEach(stage => {
+        const { provider, model, generationConfig } = stageLlms[stage];
+        console.log(`LLM for ${stage}: ${provider}/${model} (temperature ${generationConfig.temperature}, max ${generationConfig.maxOutputTokens} output tokens)`);
+    });
+    const cancelled: PipelineResult = { success: false, cancelled: true, error: CANCELLED_MESSAGE };
+
+    const llmCalls: LlmCallRecord[] = [];
+    const callRecorder = (step: string) => (attempt: number, result: LlmLlmCallResult) => {
+        llmCalls.push(toCallRecord(step, attempt, result));
+    };
+
+    const retryReporter = (stage: PipelineStage) => (attempt: number, maxRetries: number, error: string) => {
+        onProgress({ stage, type: 'retry', message: `Attempt ${attempt}/${maxRetries} failed, retrying: ${error.substring(0, 200)}` });
+    };
+
+    try {
+        // --- 1. Fetch Files ---
+        const fetchResult = await fetchSourceFiles(input, onProgress, signal);
+        if (signal?.aborted) return cancelled;
+
+        if (fetchResult.error || fetchResult.files.length === 0) {
+            return { success: false, error: fetchResult.error || "No files found or fetched. Check patterns, path, token, and size limits." };
+        }
+
+        const fetchedFiles: FileData[] = fetchResult.files;
+        const projectName = fetchResult.projectName;
+        console.log(`Fetched ${fetchedFiles.length} files for project: ${projectName}`);
+         if(fetchResult.skippedFiles && fetchResult.skippedFiles.length > 0){
+             console.log(`Skipped ${fetchResult.skippedFiles.length} files during fetch.`);
+             // Optionally log skipped file details here if needed
+         }
+        onProgress({
+            stage: 'fetching',
+            message: `Fetched ${fetchedFiles.length} files (skipped ${fetchResult.skippedFiles?.length ?? 0}).`,
+            current: fetchedFiles.length,
+            total: fetchedFiles.length
+        });
+
+        // --- 2. Identify Abstractions ---
+        console.log("Identifying abstractions...");
+        onProgress({ stage: 'abstractions', type: 'stage', message: `Identifying abstractions across ${fetchedFiles.length} files...` });
+        const abstractionsResult = await identifyAbstractions({
+            projectName,
+            files: fetchedFiles,
+            language,
+            budgetTokens: resolveContextTokenBudget(getLlmProvider(stageLlms.abstractions.provider), contextTokenBudget),
+            mode: discoveryMode,
+            onProgress,
+            retryOptions: (step) => ({ onRetry: retryReporter('abstractions'), onLlmCall: callRecorder(step), llm: llmFor('abstractions') }),
+        });
+
+        if (signal?.aborted) return cancelled;
+        if (!abstractionsResult.success || !abstractionsResult.data) {
+            return { success: false, error: `Failed to identify abstractions: ${abstractionsResult.error}` };
+        }
+        let abstractions: Abstraction[] = abstractionsResult.data;
+        console.log(`Identified ${abstractions.length} abstractions.`);
+        onProgress({ stage: 'abstractions', message: `Identified ${abstractions.length} abstractions.` });
+
+        // --- 3. Analyze Relationships ---
+        console.log("Analyzing relationships...");
+        onProgress({ stage: 'relationships', type: 'stage', message: `Analyzing relationships between ${abstractions.length} abstractions...` });
+        let relationshipContext = "Identified Abstractions:\n";
+        const allRelevantIndices = new Set<number>();
+        const abstractionInfoForPrompt: string[] = [];
+        abstractions.forEach((abstr, i) => {
+            const fileIndicesStr = abstr.files.join(", ");
+            relationshipContext += `- Index ${i}: ${abstr.name} (Relevant file indices: [${fileIndicesStr}])\n  Description: ${abstr.description}\n`;
+            abstractionInfoForPrompt.push(`${i} # ${abstr.name}`);
+            abstr.files.forEach(idx => allRelevantIndices.add(idx));
+        });
+        relationshipContext += "\nRelevant File Snippets (Referenced by Index and Path):\n";
+        const relevantFilesContentMap = getContentForIndices(fetchedFiles, Array.from(allRelevantIndices));
+        relationshipContext += Object.entries(relevantFilesContentMap)
+            .map(([idxPath, content]) => `--- File: ${idxPath} ---\n${content}`)
+            .join("\n\n");
+
+        const relationshipsResult = await callLlmWithSchema(
+             () => getAnalyzeRelationshipsPrompt(projectName, abstractionInfoForPrompt.join('\n'), relationshipContext, language),
+             relationshipsSchema(abstractions.length),
+             { onRetry: retryReporter('relationships'), onLlmCall: callRecorder('relationships'), llm: llmFor('relationships') }
+         );
+
+        if (signal?.aborted) return cancelled;
+        if (!relationshipsResult.success || !relationshipsResult.data) {
+            return { success: false, error: `Failed to analyze relationships: ${relationshipsResult.error}` };
+        }
+        let relationships: RelationshipData = {
+            summary: relationshipsResult.data.summary,
+            details: relationshipsResult.data.relationships.map(rel => ({ from: rel.from_abstraction, to: rel.to_abstraction, label: rel.label })),
+        };
+
+        // Ensure all abstractions are included in relationships
+        relationships = ensureAllAbstractionsInRelationships(relationships, abstractions);
+
+        console.log("Analyzed relationships.");
+
+        // --- 4. Order Chapters ---
+        console.log("Ordering chapters...");
+        onProgress({ stage: 'ordering', type: 'stage', message: "Ordering chapters..." });
+        let orderContext = `Project Summary:\n${relationships.summary}\n\n`;
+        orderContext += "Relationships (Indices refer to abstractions above):\n";
+        
+        // Add safety check for relationships.details
+        if (!relationships.details) {
+            console.warn("No relationship details found - creating empty array");
+            relationships.details = [];
+        }
+        
+        // Also make sure relationships.details is an array
+        if (!Array.isArray(relationships.details)) {
+            console.warn("Relationship details is not an array - fixing");
+            relationships.details = relationships.relationships || [];
+        }
+        
+        if (relationships.details && Array.isArray(relationships.details) && relationships.details.length > 0) {
+            relationships.details.forEach(rel => {
+                if (rel && typeof rel === 'object' && 'from' in rel && 'to' in rel) {
+                    const fromName = abstractions[rel.from]?.name || `Unknown(${rel.from})`;
+                    const toName = abstractions[rel.to]?.name || `Unknown(${rel.to})`;
+                    orderContext += `- From ${rel.from} (${fromName}) to ${rel.to} (${toName}): ${rel.label || 'related'}\n`;
+                }
+            });
+        } else {
+            console.warn("No valid relationships to process");
+            orderContext += "- No detailed relationships defined.\n";
+        }
+
+        const orderResult = await callLlmWithSchema(
+             () => getOrderChaptersPrompt(projectName, abstractionInfoForPrompt.join('\n'), orderContext, language),
+             chapterOrderSchema(abstractions.length),
+             { onRetry: retryReporter('ordering'), onLlmCall: callRecorder('order'), llm: llmFor('ordering') }
+         );
+
+        if (signal?.aborted) return cancelled;
+        if (!orderResult.success || !orderResult.data) {
+            return { success: false, error: `Failed to order chapters: ${orderResult.error}` };
+        }
+        let chapterOrder: number[] = orderResult.data;
+        console.log(`Determined chapter order: ${chapterOrder.join(', ')}`);
+
+        // --- 4b. Review Plan (optional) ---
+        // The user may rename, merge, delete or add abstractions, reassign files and reorder chapters
+        if (input.reviewPlan && options.reviewPlan) {
+            console.log("Waiting for the plan to be reviewed...");
+            onProgress({ stage: 'review', type: 'stage', message: `Waiting for review of ${chapterOrder.length} planned chapters...` });
+            const reviewed = await options.reviewPlan({ abstractions, relationships, chapterOrder, files: fetchedFiles.map(file => file.path) });
+            if (signal?.aborted || !reviewed) return cancelled;
+            abstractions = reviewed.abstractions;
+            relationships = ensureAllAbstractionsInRelationships(reviewed.relationships, abstractions);
+            chapterOrder = reviewed.chapterOrder;
+            console.log(`Plan reviewed: ${abstractions.length} abstractions, chapter order ${chapterOrder.join(', ')}`);
+            onProgress({ stage: 'review', message: `Plan approved with ${chapterOrder.length} chapters.` });
+        }
+
+        // --- 5. Write Chapters ---
+        // Chapters are written concurrently; each one gets the planned listing and the earlier
+        // chapters' abstraction descriptions. With a concurrency of 1 they're written in order and
+        // each gets summaries of the chapters actually written before it (see chapter-summaries.ts).
+        const concurrency = resolveChapterConcurrency(chapterConcurrency);
+        console.log(`Writing chapters (concurrency ${concurrency})...`);
+        onProgress({ stage: 'chapters', type: 'stage', message: "Writing chapters..." });
+        const chapterFileInfos: ChapterInfo[] = [];
+        const chapterSummaries: ChapterSummary[] = []; // Rolling context (sequential mode): condensed earlier chapters
+
+        // First pass to generate filenames and the full listing
+        chapterOrder.forEach((absIndex, i) => {
+             if (absIndex >= 0 && absIndex < abstractions.length) {
+                 const chapterNum = i + 1;
+                 const chapterName = abstractions[absIndex].name;
+                 const safeName = sanitizeFilename(chapterName) || `chapter_${chapterNum}`;
+                 const filename = `${String(chapterNum).padStart(2, '0')}_${safeName}.md`;
+                 chapterFileInfos.push({ index: absIndex, num: chapterNum, name: chapterName, filename });
+             } else {
+                 console.warn(`Invalid abstraction index ${absIndex} found in chapter order. Skipping.`);
+             }
+         });
+         const fullChapterListing = formatChapterListing(chapterFileInfos);
+
+        let chaptersDone = 0;
+        const writeChapter = async (i: number, previousChapters: ChapterSummary[]): Promise<{ success: boolean; data?: string; error?: string }> => {
+             const currentChapterInfo = chapterFileInfos[i];
+             console.log(`Writing Chapter ${currentChapterInfo.num}: ${currentChapterInfo.name}...`);
+             onProgress({
+                 stage: 'chapters',
+                 message: `Writing Chapter ${currentChapterInfo.num}: ${currentChapterInfo.name}...`,
+                 current: chaptersDone,
+                 total: chapterFileInfos.length
+             });
+
+            const chapterResult = await writeChapterMarkdown({
+                projectName,
+                chapter: currentChapterInfo,
+                abstraction: abstractions[currentChapterInfo.index],
+                chapterListing: fullChapterListing,
+                previousChapters,
+                files: fetchedFiles,
+                language,
+                retryOptions: { onRetry: retryReporter('chapters'), onLlmCall: callRecorder(`chapter ${currentChapterInfo.num}`), llm: llmFor('chapters') },
+            });
+            if (signal?.aborted) return chapterResult; // The whole run reports the cancellation
+            chaptersDone++;
+            onProgress({
+                stage: 'chapters',
+                message: chapterResult.success
+                    ? `Finished Chapter ${currentChapterInfo.num}: ${currentChapterInfo.name}`
+                    : `Chapter ${currentChapterInfo.num} (${currentChapterInfo.name.trim()}) failed: ${chapterResult.error}`,
+                current: chaptersDone,
+                total: chapterFileInfos.length
+            });
+            return chapterResult;
+        };
+
+        // Results stay indexed by chapter, so the zip is in planned order however the calls finish
+        let chapterResults: Array<{ success: boolean; data?: string; error?: string }>;
+        if (concurrency > 1) {
+            chapterResults = await mapWithConcurrency(chapterFileInfos, concurrency, (_, i) =>
+                writeChapter(i, chapterFileInfos.slice(0, i).map(info => plannedChapterSummary(info, abstractions[info.index].description))),
+                signal
+            );
+        } else {
+            chapterResults = [];
+            for (let i = 0; i < chapterFileInfos.length && !signal?.aborted; i++) {
+                const chapterResult = await writeChapter(i, chapterSummaries);
+                chapterResults.push(chapterResult);
+
+                // Condense for the following chapters' context (the last chapter has no readers of it)
+                if (chapterResult.success && chapterResult.data && i < chapterFileInfos.length - 1 && !signal?.aborted) {
+                    onProgress({
+                        stage: 'chapters',
+                        message: `Summarizing Chapter ${chapterFileInfos[i].num} for the next chapters...`,
+                        current: chaptersDone,
+                        total: chapterFileInfos.length
+                    });
+                    chapterSummaries.push(await summarizeChapter(
+                        projectName, chapterFileInfos[i], chapterResult.data, language,
+                        { onRetry: retryReporter('chapters'), onLlmCall: callRecorder(`chapter ${chapterFileInfos[i].num} summary`), llm: llmFor('summaries') }
+                    ));
+                }
+            }
+        }
+
+        if (signal?.aborted) return cancelled;
+
+        // A failed chapter doesn't stop the others; it's packaged as a placeholder explaining the failure
+        const failedChapters: FailedChapter[] = chapterResults
+            .map((result, i) => ({ result, info: chapterFileInfos[i] }))
+            .filter(({ result }) => !result.success || !result.data)
+            .map(({ result, info }) => ({ num: info.num, name: info.name, filename: info.filename, error: result.error || "No content returned." }));
+        if (failedChapters.length > 0) {
+            console.warn(`Failed to write ${failedChapters.length} of ${chapterFileInfos.length} chapters: ${failedChapters.map(c => `chapter ${c.num} (${c.name.trim()}): ${c.error}`).join('; ')}`);
+            onProgress({
+                stage: 'chapters',
+                message: `${failedChapters.length} of ${chapterFileInfos.length} chapters failed; packaging placeholders for them.`,
+                current: chaptersDone,
+                total: chapterFileInfos.length
+            });
+        }
+        const failedByNum = new Map(failedChapters.map(c => [c.num, c]));
+
+        const chapterContents: string[] = chapterResults.map((result, i) => {
+            const failed = failedByNum.get(chapterFileInfos[i].num);
+            return failed ? chapterPlaceholder(failed) : withAttribution(result.data!);
+        });
+        console.log(`Finished writing ${chapterContents.length} chapters.`);
+
+        // --- 6. Combine Tutorial (Generate index.md and Zip) ---
+        console.log("Combining tutorial into zip...");
+        onProgress({ stage: 'packaging', type: 'stage', message: "Combining tutorial into zip..." });
+        const zip = new JSZip();
+
+        const source = { repoUrl, uploadName: uploadedFile?.name };
+        const indexContent = buildIndexMarkdown({
+            projectName,
+            abstractions,
+            relationships,
+            chapters: chapterFileInfos,
+            failedChapterNums: new Set(failedByNum.keys()),
+            source,
+        });
+        zip.file("index.md", indexContent);
+        console.log("Added index.md to zip.");
+
+        // Add chapter files
+        chapterFileInfos.forEach((info, i) => {
+             if (i < chapterContents.length) {
+                 zip.file(info.filename, chapterContents[i]);
+                 console.log(`Added ${info.filename} to zip.`);
+             }
+        });
+
+        // Token usage and cost for the whole run
+        const report = buildGenerationReport(projectName, llmCalls, stageLlms);
+        zip.file("generation-report.json", JSON.stringify(report, null, 2));
+        console.log(`Token usage: ${report.totals.promptTokens} prompt + ${report.totals.completionTokens} completion tokens, est. cost ${formatUsd(report.totals.estimatedCostUsd)}.`);
+
+        // Generate zip buffer (persisted by the job store)
+        const zipBuffer = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE", compressionOptions: { level: 6 } });
+        const zipFileName = `${sanitizeFilename(projectName)}_tutorial.zip`;
+        console.log(`Generated zip file: ${zipFileName} (${(zipBuffer.length / 1024).toFixed(1)} KB)`);
+
+        // Everything needed to regenerate a single chapter later (see regenerate.ts)
+        const referencedFiles = new Set(abstractions.flatMap(a => a.files));
+        const state: TutorialState = {
+            projectName,
+            language,
+            source,
+            abstractions,
+            relationships,
+            chapters: chapterFileInfos,
+            files: fetchedFiles.map((file, index) => ({ ...file, index })).filter(file => referencedFiles.has(file.index)),
+            llm: { llmProvider: input.llmProvider, llmModel: input.llmModel, llmStages: input.llmStages },
+        };
+
+        return { success: true, zipBuffer, fileName: zipFileName, projectName, report, state, failedChapters: failedChapters.length > 0 ? failedChapters : undefined };
+
+    } catch (error: any) {
+        if (signal?.aborted) return cancelled;
+        console.error("Unhandled error during tutorial generation:", error);
+        return { success: false, error: `Server error: ${error.message || 'Unknown server error'}` };
+    }
+}
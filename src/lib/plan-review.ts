@@ -0,0 +1,120 @@
+// lib/plan-review.ts
+// The reviewable tutorial plan (abstractions, relationships, chapter order): validation of an
+// edited plan on the server, and the edits the review form makes. Deleting or merging an
+// abstraction shifts the indices after it, so every edit keeps relationships and the chapter
+// order pointing at the right abstractions.
+import { Abstraction, RelationshipData, TutorialPlan } from './types';
+import { array, index, object, parseWithSchema, SchemaError, string } from './schemas';
+
+function planSchema(fileCount: number, abstractionCount: number) {
+    const abstractionIndex = index({ max: abstractionCount - 1, of: 'abstraction' });
+    return object({
+        abstractions: array(object({
+            name: string({ nonEmpty: true }),
+            description: string({ nonEmpty: true }),
+            files: array(index({ max: fileCount - 1, of: 'file' }), { unique: true }),
+        }), { minItems: 1 }),
+        relationships: object({
+            summary: string({ nonEmpty: true }),
+            details: array(object({
+                from: abstractionIndex,
+                to: abstractionIndex,
+                label: string(),
+            })),
+        }),
+        chapterOrder: array(abstractionIndex, {
+            unique: true,
+            check: items => items.length === abstractionCount ? null : `expected every abstraction exactly once (${abstractionCount}), got ${items.length}`,
+        }),
+    });
+}
+
+/**
+ * Validates a plan submitted for a paused job. `files` are the job's crawled paths; the
+ * submitted plan can't change them, only which abstraction references which.
+ */
+export function parseTutorialPlan(value: unknown, files: string[]): { success: boolean; data?: TutorialPlan; error?: string } {
+    const abstractions = (value as { abstractions?: unknown } | null)?.abstractions;
+    const abstractionCount = Array.isArray(abstractions) ? abstractions.length : 0;
+    try {
+        const plan = parseWithSchema(planSchema(files.length, abstractionCount), value);
+        return {
+            success: true,
+            data: {
+                abstractions: plan.abstractions.map(a => ({ name: a.name.trim(), description: a.description.trim(), files: a.files })),
+                relationships: { summary: plan.relationships.summary, details: plan.relationships.details.filter(rel => rel.from !== rel.to) },
+                chapterOrder: plan.chapterOrder,
+                files,
+            },
+        };
+    } catch (error: any) {
+        if (error instanceof SchemaError) return { success: false, error: `Invalid plan: ${error.message}` };
+        throw error;
+    }
+}
+
+export function updateAbstraction(plan: TutorialPlan, idx: number, changes: Partial<Abstraction>): TutorialPlan {
+    return { ...plan, abstractions: plan.abstractions.map((a, i) => i === idx ? { ...a, ...changes } : a) };
+}
+
+// New abstractions become the last chapter
+export function addAbstraction(plan: TutorialPlan, abstraction: Abstraction): TutorialPlan {
+    return { ...plan, abstractions: [...plan.abstractions, abstraction], chapterOrder: [...plan.chapterOrder, plan.abstractions.length] };
+}
+
+// Drops the abstraction, its chapter and its relationships; later indices shift down by one
+export function deleteAbstraction(plan: TutorialPlan, idx: number): TutorialPlan {
+    const shift = (i: number) => i > idx ? i - 1 : i;
+    const relationships: RelationshipData = {
+        summary: plan.relationships.summary,
+        details: plan.relationships.details
+            .filter(rel => rel.from !== idx && rel.to !== idx)
+            .map(rel => ({ ...rel, from: shift(rel.from), to: shift(rel.to) })),
+    };
+    return {
+        ...plan,
+        abstractions: plan.abstractions.filter((_, i) => i !== idx),
+        relationships,
+        chapterOrder: plan.chapterOrder.filter(i => i !== idx).map(shift),
+    };
+}
+
+/**
+ * Folds `from` into `into`: files are combined, both descriptions kept, and `from`'s
+ * relationships redirected to `into` (self-references and duplicates dropped).
+ * The merged abstraction keeps `into`'s name and place in the order.
+ */
+export function mergeAbstractions(plan: TutorialPlan, from: number, into: number): TutorialPlan {
+    if (from === into) return plan;
+    const source = plan.abstractions[from];
+    const target = plan.abstractions[into];
+    const merged: Abstraction = {
+        name: target.name,
+        description: `${target.description.trim()}\n\n${source.description.trim()}`.trim(),
+        files: Array.from(new Set([...target.files, ...source.files])),
+    };
+    const seen = new Set<string>();
+    const details = plan.relationships.details
+        .map(rel => ({ ...rel, from: rel.from === from ? into : rel.from, to: rel.to === from ? into : rel.to }))
+        .filter(rel => {
+            const key = `${rel.from}->${rel.to}`;
+            if (rel.from === rel.to || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    const redirected: TutorialPlan = {
+        ...plan,
+        abstractions: plan.abstractions.map((a, i) => i === into ? merged : a),
+        relationships: { ...plan.relationships, details },
+    };
+    return deleteAbstraction(redirected, from); // No relationships mention `from` any more
+}
+
+// Moves the chapter at position `fromPos` of the order to `toPos`
+export function moveChapter(plan: TutorialPlan, fromPos: number, toPos: number): TutorialPlan {
+    if (fromPos === toPos || toPos < 0 || toPos >= plan.chapterOrder.length) return plan;
+    const chapterOrder = [...plan.chapterOrder];
+    const [moved] = chapterOrder.splice(fromPos, 1);
+    chapterOrder.splice(toPos, 0, moved);
+    return { ...plan, chapterOrder };
+}
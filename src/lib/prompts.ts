@@ -1,5 +1,9 @@
 // lib/prompts.ts
 
+// Appended to YAML prompts when the provider is asked for structured (JSON) output instead.
+// Replay fixtures are keyed without it (see llm-fixtures.ts), so one recording serves every provider.
+export const STRUCTURED_OUTPUT_INSTRUCTION = "\nRespond with JSON matching the provided response schema instead of a YAML block, using the same fields as the YAML format above. Give indices as plain integers.\n";
+
 // --- Identify Abstractions Prompt ---
 export function getIdentifyAbstractionsPrompt(
     projectName: string,
@@ -53,6 +57,95 @@ Format the output as a YAML list of dictionaries:
 Provide the YAML output now:`;
 }
 
+// --- Map-Reduce Abstraction Discovery Prompts (large repositories) ---
+// Map: candidate abstractions within one directory batch of the codebase
+export function getBatchAbstractionsPrompt(
+    projectName: string,
+    batchLabel: string, // Directories covered by this batch
+    filesContext: string, // Indexed file contents of this batch only
+    fileListingForPrompt: string, // "- index # path" for this batch, using global indices
+    language: string = "english"
+): string {
+    const languageInstruction = language.toLowerCase() !== "english"
+        ? `IMPORTANT: Generate the \`name\` and \`description\` for each abstraction in **${language}** language. Do NOT use English for these fields.\n\n`
+        : "";
+    const langHint = language.toLowerCase() !== "english" ? ` (value in ${language})` : "";
+
+    return `
+For the project \`${projectName}\`, you are looking at ONE PART of a larger codebase: ${batchLabel}
+
+Codebase Context (this part only):
+${filesContext}
+
+${languageInstruction}Analyze this part of the codebase.
+Identify up to 5 candidate abstractions that are central to this part and likely important for understanding the whole project. Other parts are analyzed separately and the candidates will be merged later, so focus only on what is visible here.
+
+For each candidate, provide:
+1. A concise \`name\`${langHint}.
+2. A short \`description\` of what it is and what it is responsible for, in around 50 words${langHint}.
+3. A list of relevant \`file_indices\` (integers) using the format \`idx # path/comment\`. Only use indices from the list below.
+
+List of file indices and paths in this part:
+${fileListingForPrompt}
+
+Format the output as a YAML list of dictionaries:
+
+\`\`\`yaml
+- name: |
+    Request Router${langHint}
+  description: |
+    Maps incoming requests to handlers.${langHint}
+  file_indices:
+    - 12 # path/to/router.py
+    - 15 # path/to/handlers.py
+# ... up to 5 candidates
+\`\`\`
+
+Provide the YAML output now:`;
+}
+
+// Reduce: merge and deduplicate the candidates from all batches into the final abstractions
+export function getMergeAbstractionsPrompt(
+    projectName: string,
+    candidateListing: string, // "- index # name (directories): description" per candidate
+    language: string = "english"
+): string {
+    const languageInstruction = language.toLowerCase() !== "english"
+        ? `IMPORTANT: Generate the \`name\` and \`description\` for each abstraction in **${language}** language. Do NOT use English for these fields.\n\n`
+        : "";
+    const nameLangHint = language.toLowerCase() !== "english" ? ` (value in ${language})` : "";
+    const descLangHint = language.toLowerCase() !== "english" ? ` (value in ${language})` : "";
+
+    return `
+For the project \`${projectName}\`, different parts of the codebase were analyzed separately and produced these candidate abstractions:
+
+${candidateListing}
+
+${languageInstruction}Merge these candidates into the top 5-10 core most important abstractions to help those new to the codebase.
+Candidates describing the same concept (even under different names or in different directories) MUST be merged into one abstraction. Drop candidates that are minor or too specific.
+
+For each final abstraction, provide:
+1. A concise \`name\`${nameLangHint}.
+2. A beginner-friendly \`description\` explaining what it is with a simple analogy, in around 100 words${descLangHint}.
+3. A list of \`candidate_indices\` (integers) of ALL candidates merged into it, using the format \`idx # candidate name\`.
+
+Format the output as a YAML list of dictionaries:
+
+\`\`\`yaml
+- name: |
+    Query Processing${nameLangHint}
+  description: |
+    Explains what the abstraction does.
+    It's like a central dispatcher routing requests.${descLangHint}
+  candidate_indices:
+    - 0 # Query Parser
+    - 7 # Request Dispatcher
+# ... up to 10 abstractions
+\`\`\`
+
+Provide the YAML output now:`;
+}
+
 // --- Analyze Relationships Prompt ---
 export function getAnalyzeRelationshipsPrompt(
     projectName: string,
@@ -149,9 +242,10 @@ export function getWriteChapterPrompt(
     abstractionName: string,
     abstractionDescription: string,
     fullChapterListing: string, // Full list of "Num. [Name](filename)"
-    previousChaptersSummary: string, // Markdown content of previous chapters combined
+    previousChaptersSummary: string, // Condensed summaries of the previous chapters (see formatChapterSummaries)
     fileContextStr: string, // Relevant code snippets
-    language: string = "english"
+    language: string = "english",
+    feedback?: string // Reader feedback when regenerating the chapter
 ): string {
     const langCap = language.charAt(0).toUpperCase() + language.slice(1);
     const languageInstruction = language.toLowerCase() !== "english"
@@ -199,6 +293,107 @@ Instructions for the chapter (Generate content in ${langCap} unless specified ot
 - Ensure the tone is welcoming and easy for a newcomer to understand${toneNote}.
 - Output *only* the Markdown content for this chapter.
 
-Now, directly provide a super beginner-friendly Markdown output (DON'T need \`\`\`markdown\`\`\` tags):
+${feedback ? `Reader feedback on the previous version of this chapter. Address it in this version while following the instructions above:\n${feedback.trim()}\n\n` : ''}Now, directly provide a super beginner-friendly Markdown output (DON'T need \`\`\`markdown\`\`\` tags):
 `;
-}
\ No newline at end of file
+}
+
+// --- Summarize Chapter Prompt ---
+// Condenses a written chapter so later chapters get its gist instead of its full text
+export function getSummarizeChapterPrompt(
+    projectName: string,
+    chapterNum: number,
+    chapterName: string,
+    chapterContent: string,
+    language: string = "english"
+): string {
+    const langHint = language.toLowerCase() !== "english" ? ` (in ${language})` : "";
+
+    return `
+Below is Chapter ${chapterNum} ("${chapterName}") of a beginner tutorial about the project \`${projectName}\`.
+
+${chapterContent}
+
+Summarize this tutorial chapter so the author of the NEXT chapters knows what the reader has already learned, without repeating it.
+
+Provide:
+1. A \`summary\` of what the chapter teaches, in 2-4 sentences${langHint}.
+2. A list of \`key_terms\`: the concepts, classes, functions or files the chapter introduced, each with a short explanation of at most 15 words${langHint}.
+
+Format the output as YAML:
+
+\`\`\`yaml
+summary: |
+  Explains how commands are routed to handlers using a lookup table.
+key_terms:
+  - term: commands
+    meaning: Object mapping each command name to its handler function
+  - term: cli.js
+    meaning: Entry point that parses arguments and runs the chosen command
+\`\`\`
+
+Now, provide the YAML output:
+`;
+}
+
+// Follow-up to a prompt whose answer failed parsing or validation: repeats the original task,
+// shows the rejected answer and the exact error, and asks for a corrected, complete answer.
+export function getRepairPrompt(
+    originalPrompt: string,
+    previousResponse: string,
+    error: string,
+    format: 'yaml' | 'json' | 'markdown' = 'yaml', // 'json' when the provider returns structured output
+    expectedShape?: string // From describeSchema, for structured responses
+): string {
+    const maxResponseChars = 20000;
+    const shownResponse = previousResponse.length > maxResponseChars
+        ? `${previousResponse.substring(0, maxResponseChars)}\n... (truncated)`
+        : previousResponse;
+    // The shape is an outline in YAML notation; for JSON answers it only names the fields, so it gets no yaml fence
+    const shownShape = !expectedShape ? ''
+        : format === 'json'
+            ? `\nExpected fields (an outline of the structure, not the answer format):\n\`\`\`\n${expectedShape}\n\`\`\`\n`
+            : `\nExpected format:\n\`\`\`yaml\n${expectedShape}\n\`\`\`\n`;
+    const formatHint = {
+        yaml: "Return the complete corrected output as a single ```yaml block, in the same format the task asks for.",
+        json: "Return the complete corrected output as JSON matching the response schema.",
+        markdown: "Return the complete corrected Markdown, in the same format the task asks for.",
+    }[format] + " Keep everything that was already correct.";
+
+    return `${originalPrompt.trimEnd()}
+
+---
+
+Your previous answer to the task above was rejected.
+
+Previous answer:
+<<<
+${shownResponse}
+>>>
+
+Error:
+${error}
+${shownShape}
+Fix the problem described in the error. ${formatHint}
+`;
+}
+
+// Follow-up to a prompt whose answer stopped at the output token limit: shows the end of the
+// text written so far and asks for the rest only, so the pieces can be joined.
+export function getContinuationPrompt(originalPrompt: string, partialResponse: string): string {
+    const maxTailChars = 20000;
+    const shownTail = partialResponse.length > maxTailChars
+        ? `... (earlier text omitted)\n${partialResponse.substring(partialResponse.length - maxTailChars)}`
+        : partialResponse;
+
+    return `${originalPrompt.trimEnd()}
+
+---
+
+Your answer to the task above was cut off by the output length limit. This is what you have written so far:
+<<<
+${shownTail}
+>>>
+
+Continue the answer exactly where it stops, mid-sentence or mid-line if needed. Do NOT repeat any of the text above, do NOT start over, and do NOT add an introduction or comments about continuing. If the text stops inside a code block (e.g. a \`\`\`mermaid diagram), finish that block and close it before writing anything else.
+`;
+}
@@ -0,0 +1,33 @@
+// lib/providers/errors.ts
+// Non-OK HTTP responses from a provider, with the server's retry hint when it sent one.
+// The LLM scheduler uses these to back off on rate limits instead of hammering the API.
+
+export class ProviderHttpError extends Error {
+    constructor(message: string, public readonly status: number, public readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'ProviderHttpError';
+    }
+}
+
+/**
+ * Parses a Retry-After header: delay in seconds, or an HTTP date.
+ */
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(seconds, 0) * 1000;
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Builds a ProviderHttpError from a failed fetch response (reads the body for the message).
+ */
+export async function providerHttpError(providerLabel: string, response: Response): Promise<ProviderHttpError> {
+    const body = await response.text().catch(() => '');
+    return new ProviderHttpError(
+        `${providerLabel} returned ${response.status} ${response.statusText}: ${body.substring(0, 300)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+    );
+}
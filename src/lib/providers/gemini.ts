@@ -0,0 +1,89 @@
+// lib/providers/gemini.ts
+import { GoogleGenerativeAI, GoogleGenerativeAIFetchError, HarmCategory, HarmBlockThreshold, ResponseSchema } from "@google/generative-ai";
+import { LlmFinishReason, LlmProvider } from '../types';
+import { ProviderHttpError } from './errors';
+
+const API_KEY = process.env.GEMINI_API_KEY;
+const genAI = API_KEY ? new GoogleGenerativeAI(API_KEY) : null;
+
+// Configuration for safety settings - adjust as needed
+const safetySettings = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+];
+
+function mapFinishReason(reason: string | undefined): LlmFinishReason {
+    switch (reason) {
+        case 'STOP': return 'stop';
+        case 'MAX_TOKENS': return 'max_tokens';
+        case 'SAFETY':
+        case 'RECITATION':
+        case 'BLOCKLIST':
+        case 'PROHIBITED_CONTENT':
+        case 'SPII':
+            return 'safety';
+        default: return 'other';
+    }
+}
+
+// 429s carry a google.rpc.RetryInfo detail such as { retryDelay: "31s" }
+function retryDelayFromDetails(details: unknown): number | undefined {
+    if (!Array.isArray(details)) return undefined;
+    const retryInfo = details.find(d => typeof d?.['@type'] === 'string' && d['@type'].endsWith('RetryInfo'));
+    const seconds = parseFloat(retryInfo?.retryDelay);
+    return isNaN(seconds) ? undefined : seconds * 1000;
+}
+
+export const geminiProvider: LlmProvider = {
+    name: 'gemini',
+    defaultModel: process.env.GEMINI_MODEL || "gemini-1.5-flash", // Use Flash default, cheaper/faster
+    contextWindow: Number(process.env.GEMINI_CONTEXT_WINDOW || 1_000_000),
+    isConfigured: () => genAI !== null,
+    supportsStructuredOutput: () => true,
+
+    async generate(prompt, { model, generationConfig, responseSchema, signal }) {
+        if (!genAI) throw new Error("GEMINI_API_KEY environment variable is not set.");
+
+        let result;
+        try {
+            result = await genAI.getGenerativeModel({ model }).generateContent({
+                contents: [{ role: "user", parts: [{ text: prompt }] }],
+                generationConfig: responseSchema
+                    ? { ...generationConfig, responseMimeType: "application/json", responseSchema: responseSchema as ResponseSchema }
+                    : generationConfig,
+                safetySettings,
+            }, { signal });
+        } catch (error: any) {
+            if (error instanceof GoogleGenerativeAIFetchError && error.status) {
+                throw new ProviderHttpError(error.message, error.status, retryDelayFromDetails(error.errorDetails));
+            }
+            throw error;
+        }
+        const response = result.response;
+
+        if (response.promptFeedback?.blockReason) {
+            return {
+                text: '',
+                finishReason: 'blocked',
+                rawFinishReason: response.promptFeedback.blockReason,
+                details: JSON.stringify(response.promptFeedback.safetyRatings),
+            };
+        }
+
+        const candidate = response.candidates?.[0];
+        const finishReason = mapFinishReason(candidate?.finishReason);
+        const usage = response.usageMetadata
+            ? { promptTokens: response.usageMetadata.promptTokenCount ?? 0, completionTokens: response.usageMetadata.candidatesTokenCount ?? 0 }
+            : undefined;
+        return {
+            usage,
+            // text() throws when the candidate was blocked, so only read it for usable finishes
+            text: finishReason === 'stop' || finishReason === 'max_tokens' ? response.text() : '',
+            finishReason,
+            rawFinishReason: candidate?.finishReason ?? 'Unknown',
+            details: candidate?.safetyRatings ? JSON.stringify(candidate.safetyRatings) : undefined,
+        };
+    },
+};
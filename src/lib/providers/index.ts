@@ -0,0 +1,37 @@
+// lib/providers/index.ts
+import { LlmProvider, LlmProviderName } from '../types';
+import { geminiProvider } from './gemini';
+import { openAiProvider } from './openai';
+import { ollamaProvider } from './ollama';
+
+const providers: Record<LlmProviderName, LlmProvider> = {
+    gemini: geminiProvider,
+    openai: openAiProvider,
+    ollama: ollamaProvider,
+};
+
+export const LLM_PROVIDER_NAMES = Object.keys(providers) as LlmProviderName[];
+
+export function isLlmProviderName(name: unknown): name is LlmProviderName {
+    return typeof name === 'string' && name in providers;
+}
+
+/**
+ * Resolves a provider by name, falling back to `LLM_PROVIDER` and then Gemini.
+ */
+export function getLlmProvider(name?: LlmProviderName): LlmProvider {
+    const envName = process.env.LLM_PROVIDER;
+    if (name) return providers[name];
+    if (envName && !isLlmProviderName(envName)) {
+        console.warn(`Unknown LLM_PROVIDER '${envName}', falling back to gemini.`);
+    }
+    return isLlmProviderName(envName) ? providers[envName] : providers.gemini;
+}
+
+/**
+ * Whether structured-output requests (JSON matching a response schema) go to this provider.
+ * `LLM_STRUCTURED_OUTPUT=off` falls back to YAML in fenced blocks everywhere.
+ */
+export function usesStructuredOutput(provider: LlmProvider): boolean {
+    return process.env.LLM_STRUCTURED_OUTPUT !== 'off' && provider.supportsStructuredOutput();
+}
@@ -0,0 +1,58 @@
+// lib/providers/ollama.ts
+import { LlmFinishReason, LlmProvider } from '../types';
+import { providerHttpError } from './errors';
+
+const BASE_URL = (process.env.OLLAMA_BASE_URL || "http://localhost:11434").replace(/\/+$/, '');
+const CONTEXT_WINDOW = Number(process.env.OLLAMA_CONTEXT_WINDOW || 8192);
+
+function mapFinishReason(reason: string | undefined): LlmFinishReason {
+    switch (reason) {
+        case 'stop': return 'stop';
+        case 'length': return 'max_tokens';
+        default: return 'other';
+    }
+}
+
+export const ollamaProvider: LlmProvider = {
+    name: 'ollama',
+    defaultModel: process.env.OLLAMA_MODEL || "llama3.1",
+    contextWindow: CONTEXT_WINDOW,
+    isConfigured: () => true, // Local server, no key needed
+    supportsStructuredOutput: () => true, // `format` accepts a JSON schema since Ollama 0.5
+
+    async generate(prompt, { model, generationConfig, responseSchema, signal }) {
+        const response = await fetch(`${BASE_URL}/api/generate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            signal,
+            body: JSON.stringify({
+                model,
+                prompt,
+                stream: false,
+                format: responseSchema,
+                options: {
+                    temperature: generationConfig.temperature,
+                    top_k: generationConfig.topK,
+                    top_p: generationConfig.topP,
+                    num_predict: generationConfig.maxOutputTokens,
+                    num_ctx: CONTEXT_WINDOW, // Ollama's own default (2048) would silently truncate our prompts
+                },
+            }),
+        });
+        if (!response.ok) {
+            throw await providerHttpError('Ollama', response);
+        }
+
+        const data = await response.json();
+        // Older Ollama versions omit done_reason; a finished response then means a normal stop
+        const rawFinishReason: string | undefined = data.done_reason ?? (data.done ? 'stop' : undefined);
+        return {
+            text: data.response ?? '',
+            usage: data.prompt_eval_count !== undefined || data.eval_count !== undefined
+                ? { promptTokens: data.prompt_eval_count ?? 0, completionTokens: data.eval_count ?? 0 }
+                : undefined,
+            finishReason: mapFinishReason(rawFinishReason),
+            rawFinishReason: rawFinishReason ?? 'Unknown',
+        };
+    },
+};
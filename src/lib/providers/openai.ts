@@ -0,0 +1,61 @@
+// lib/providers/openai.ts
+// Any server speaking the OpenAI chat completions API (OpenAI itself, internal gateways, vLLM, ...)
+import { LlmFinishReason, LlmProvider } from '../types';
+import { providerHttpError } from './errors';
+
+const BASE_URL = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, '');
+const API_KEY = process.env.OPENAI_API_KEY;
+
+function mapFinishReason(reason: string | undefined): LlmFinishReason {
+    switch (reason) {
+        case 'stop': return 'stop';
+        case 'length': return 'max_tokens';
+        case 'content_filter': return 'safety';
+        default: return 'other';
+    }
+}
+
+export const openAiProvider: LlmProvider = {
+    name: 'openai',
+    defaultModel: process.env.OPENAI_MODEL || "gpt-4o-mini",
+    contextWindow: Number(process.env.OPENAI_CONTEXT_WINDOW || 128_000),
+    // Gateways without auth only need a base URL
+    isConfigured: () => Boolean(API_KEY || process.env.OPENAI_BASE_URL),
+    // Many OpenAI-compatible servers reject `response_format: json_schema`, so it's opt-in
+    supportsStructuredOutput: () => process.env.OPENAI_STRUCTURED_OUTPUT === 'true',
+
+    async generate(prompt, { model, generationConfig, responseSchema, signal }) {
+        const headers: HeadersInit = { 'Content-Type': 'application/json' };
+        if (API_KEY) headers['Authorization'] = `Bearer ${API_KEY}`;
+
+        const response = await fetch(`${BASE_URL}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal,
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: generationConfig.temperature,
+                top_p: generationConfig.topP,
+                max_tokens: generationConfig.maxOutputTokens,
+                response_format: responseSchema
+                    ? { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } }
+                    : undefined,
+            }),
+        });
+        if (!response.ok) {
+            throw await providerHttpError('OpenAI-compatible API', response);
+        }
+
+        const data = await response.json();
+        const choice = data.choices?.[0];
+        return {
+            text: choice?.message?.content ?? '',
+            usage: data.usage
+                ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+                : undefined,
+            finishReason: mapFinishReason(choice?.finish_reason),
+            rawFinishReason: choice?.finish_reason ?? 'Unknown',
+        };
+    },
+};
@@ -0,0 +1,84 @@
+// lib/regenerate.ts
+// Regenerates one chapter of a finished tutorial from its saved state (abstractions, order,
+// chapter list and the files they reference). Only that chapter's prompt runs again, always
+// past the cache and optionally with reader feedback; chapter filenames don't change, so the
+// other chapters and every cross-link stay valid.
+import JSZip from 'jszip';
+import { randomUUID } from 'crypto';
+import { FailedChapter, FileData, GenerationReport, LlmCallRecord, LlmLlmCallResult, TutorialState } from './types';
+import { buildIndexMarkdown, formatChapterListing, withAttribution, writeChapterMarkdown } from './chapters';
+import { plannedChapterSummary } from './chapter-summaries';
+import { resolveStageLlm } from './model-routing';
+import { buildGenerationReport, toCallRecord } from './usage';
+
+export interface RegenerateChapterOptions {
+    state: TutorialState;
+    zipBuffer: Buffer; // The current tutorial zip
+    report?: GenerationReport; // The run's report; the new calls are added to it
+    failedChapters: FailedChapter[];
+    chapterNum: number;
+    feedback?: string;
+    signal?: AbortSignal;
+}
+
+export interface RegeneratedTutorial {
+    zipBuffer: Buffer;
+    report: GenerationReport;
+    failedChapters: FailedChapter[]; // Without the regenerated chapter
+}
+
+export async function regenerateTutorialChapter(options: RegenerateChapterOptions): Promise<{ success: boolean; data?: RegeneratedTutorial; error?: string }> {
+    const { state, chapterNum, signal } = options;
+    const chapter = state.chapters.find(c => c.num === chapterNum);
+    if (!chapter) {
+        return { success: false, error: `Chapter ${chapterNum} doesn't exist; the tutorial has chapters 1-${state.chapters.length}.` };
+    }
+
+    // Same context a parallel run gives: the planned listing and the earlier chapters' descriptions
+    const previousChapters = state.chapters
+        .filter(c => c.num < chapterNum)
+        .map(c => plannedChapterSummary(c, state.abstractions[c.index].description));
+    const files: FileData[] = [];
+    for (const file of state.files) files[file.index] = file; // Sparse, indexed like abstraction.files
+
+    const step = `chapter ${chapterNum} (regenerated)`;
+    const calls: LlmCallRecord[] = [];
+    console.log(`Regenerating Chapter ${chapterNum}: ${chapter.name.trim()}${options.feedback ? ' with feedback' : ''}...`);
+    const result = await writeChapterMarkdown({
+        projectName: state.projectName,
+        chapter,
+        abstraction: state.abstractions[chapter.index],
+        chapterListing: formatChapterListing(state.chapters),
+        previousChapters,
+        files,
+        language: state.language,
+        feedback: options.feedback,
+        retryOptions: {
+            useCache: false, // The cached answer is the chapter being replaced
+            onLlmCall: (attempt: number, llmResult: LlmLlmCallResult) => calls.push(toCallRecord(step, attempt, llmResult)),
+            llm: { ...resolveStageLlm('chapters', state.llm), queueKey: `regenerate-${randomUUID()}`, signal },
+        },
+    });
+    if (!result.success || !result.data) {
+        return { success: false, error: `Failed to regenerate chapter ${chapterNum}: ${result.error}` };
+    }
+
+    const failedChapters = options.failedChapters.filter(c => c.num !== chapterNum);
+    const report = buildGenerationReport(state.projectName, [...(options.report?.calls ?? []), ...calls], options.report?.models);
+
+    const zip = await JSZip.loadAsync(options.zipBuffer);
+    zip.file(chapter.filename, withAttribution(result.data));
+    zip.file("index.md", buildIndexMarkdown({
+        projectName: state.projectName,
+        abstractions: state.abstractions,
+        relationships: state.relationships,
+        chapters: state.chapters,
+        failedChapterNums: new Set(failedChapters.map(c => c.num)),
+        source: state.source,
+    }));
+    zip.file("generation-report.json", JSON.stringify(report, null, 2));
+    const zipBuffer = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE", compressionOptions: { level: 6 } });
+    console.log(`Regenerated Chapter ${chapterNum} (${chapter.filename}).`);
+
+    return { success: true, data: { zipBuffer, report, failedChapters } };
+}
@@ -0,0 +1,242 @@
+// lib/schemas.ts
+// Declarative schemas for the structured (YAML/JSON) responses the pipeline asks the LLM for.
+// One schema per response shape does three jobs: parses and normalizes a response (coercing
+// `"3 # path"` indices to 3) with precise error paths such as `[2].file_indices[0]`, describes
+// the expected shape in repair prompts, and becomes a JSON Schema for providers that support
+// structured output.
+import { JsonSchema } from './types';
+
+export class SchemaError extends Error {
+    constructor(public readonly path: string, public readonly issue: string) {
+        super(path ? `${path}: ${issue}` : issue);
+        this.name = 'SchemaError';
+    }
+}
+
+type Shape =
+    | { kind: 'scalar'; label: string }
+    | { kind: 'array'; item: Schema<unknown>; note?: string }
+    | { kind: 'object'; fields: Array<[string, Schema<unknown>]> };
+
+export interface Schema<T> {
+    shape: Shape;
+    optional?: boolean;
+    parse(value: unknown, path?: string): T; // Throws SchemaError
+    toJsonSchema(): JsonSchema;
+}
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function preview(value: unknown): string {
+    const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value);
+    return text.length > 60 ? `${text.substring(0, 60)}...` : text;
+}
+
+/**
+ * A string; numbers and booleans (which YAML produces for unquoted `123` or `yes`) are accepted as text.
+ */
+export function string(options: { nonEmpty?: boolean; description?: string } = {}): Schema<string> {
+    return {
+        shape: { kind: 'scalar', label: options.nonEmpty ? 'non-empty string' : 'string' },
+        parse(value, path = '') {
+            if (typeof value === 'number' || typeof value === 'boolean') value = String(value);
+            if (typeof value !== 'string') throw new SchemaError(path, `expected a string, got ${preview(value)}`);
+            if (options.nonEmpty && !value.trim()) throw new SchemaError(path, 'must not be empty');
+            return value;
+        },
+        toJsonSchema: () => ({ type: 'string', description: options.description }),
+    };
+}
+
+/**
+ * An index into a numbered list shown in the prompt. Accepts `3`, `"3"` and `"3 # name"`.
+ * `isAllowed` restricts it further (e.g. to the files of one batch).
+ */
+export function index(options: { max: number; of: string; isAllowed?: (idx: number) => boolean }): Schema<number> {
+    const range = options.max >= 0 ? `0-${options.max}` : 'none available';
+    return {
+        shape: { kind: 'scalar', label: `${options.of} index (integer ${range})` },
+        parse(value, path = '') {
+            const idx = typeof value === 'number' ? value : parseInt(String(value).split('#')[0].trim(), 10);
+            if (!Number.isInteger(idx)) throw new SchemaError(path, `expected an integer ${options.of} index, got ${preview(value)}`);
+            if (idx < 0 || idx > options.max) throw new SchemaError(path, `${options.of} index ${idx} is out of range (valid: ${range})`);
+            if (options.isAllowed && !options.isAllowed(idx)) throw new SchemaError(path, `${options.of} index ${idx} is not one of the listed ${options.of}s`);
+            return idx;
+        },
+        toJsonSchema: () => ({ type: 'integer', description: `Index of a listed ${options.of} (${range}), as a plain integer` }),
+    };
+}
+
+/**
+ * A list. `unique` rejects repeated items; `check` adds a constraint over the whole list.
+ */
+export function array<T>(
+    item: Schema<T>,
+    options: { minItems?: number; unique?: boolean; check?: (items: T[]) => string | null; note?: string; description?: string } = {}
+): Schema<T[]> {
+    const notes = [
+        options.minItems ? `at least ${options.minItems} item(s)` : '',
+        options.unique ? 'no duplicates' : '',
+        options.note ?? '',
+    ].filter(Boolean);
+    return {
+        shape: { kind: 'array', item, note: notes.join('; ') || undefined },
+        parse(value, path = '') {
+            if (!Array.isArray(value)) throw new SchemaError(path, `expected a list, got ${preview(value)}`);
+            if (options.minItems && value.length < options.minItems) {
+                throw new SchemaError(path, `expected at least ${options.minItems} item(s), got ${value.length}`);
+            }
+            const items = value.map((entry, i) => item.parse(entry, `${path}[${i}]`));
+            if (options.unique) {
+                const seen = new Map<string, number>();
+                items.forEach((entry, i) => {
+                    const key = JSON.stringify(entry);
+                    if (seen.has(key)) throw new SchemaError(`${path}[${i}]`, `duplicate value ${key} (already at ${path}[${seen.get(key)}])`);
+                    seen.set(key, i);
+                });
+            }
+            const problem = options.check?.(items);
+            if (problem) throw new SchemaError(path, problem);
+            return items;
+        },
+        toJsonSchema: () => ({ type: 'array', items: item.toJsonSchema(), description: options.description }),
+    };
+}
+
+/**
+ * An object with the given fields. Unknown fields are dropped.
+ */
+export function object<F extends Record<string, Schema<unknown>>>(
+    fields: F,
+    options: { description?: string } = {}
+): Schema<{ [K in keyof F]: Infer<F[K]> }> {
+    const entries = Object.entries(fields);
+    return {
+        shape: { kind: 'object', fields: entries },
+        parse(value, path = '') {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                throw new SchemaError(path, `expected an object with ${entries.map(([k]) => `\`${k}\``).join(', ')}, got ${preview(value)}`);
+            }
+            const record = value as Record<string, unknown>;
+            const result: Record<string, unknown> = {};
+            for (const [key, schema] of entries) {
+                const fieldPath = path ? `${path}.${key}` : key;
+                if (record[key] === undefined || record[key] === null) {
+                    if (schema.optional) continue;
+                    throw new SchemaError(fieldPath, 'required field is missing');
+                }
+                result[key] = schema.parse(record[key], fieldPath);
+            }
+            return result as { [K in keyof F]: Infer<F[K]> };
+        },
+        toJsonSchema: () => ({
+            type: 'object',
+            properties: Object.fromEntries(entries.map(([key, schema]) => [key, schema.toJsonSchema()])),
+            required: entries.filter(([, schema]) => !schema.optional).map(([key]) => key),
+            description: options.description,
+        }),
+    };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return { ...schema, optional: true };
+}
+
+function describeLines(schema: Schema<unknown>, indent: string): string[] {
+    const { shape } = schema;
+    if (shape.kind === 'scalar') return [`${indent}${shape.label}`];
+    if (shape.kind === 'object') {
+        return shape.fields.flatMap(([key, field]) => {
+            const suffix = field.optional ? ' (optional)' : '';
+            if (field.shape.kind === 'scalar') return [`${indent}${key}: ${field.shape.label}${suffix}`];
+            const note = field.shape.kind === 'array' && field.shape.note ? ` # ${field.shape.note}` : '';
+            return [`${indent}${key}:${suffix}${note}`, ...describeLines(field, `${indent}  `)];
+        });
+    }
+    // Arrays: the first line of the item gets the "- " marker
+    const itemLines = describeLines(shape.item, `${indent}  `);
+    itemLines[0] = `${indent}- ${itemLines[0].substring(indent.length + 2)}`;
+    return [...itemLines, `${indent}- ...`];
+}
+
+/**
+ * The expected shape in YAML-like notation, for repair prompts.
+ */
+export function describeSchema(schema: Schema<unknown>): string {
+    const lines = describeLines(schema, '');
+    const rootNote = schema.shape.kind === 'array' && schema.shape.note ? [`# List: ${schema.shape.note}`] : [];
+    return [...rootNote, ...lines].join('\n');
+}
+
+// Structured output APIs want an object at the root, so lists are wrapped as { result: [...] }
+export function toResponseJsonSchema(schema: Schema<unknown>): JsonSchema {
+    const json = schema.toJsonSchema();
+    if (json.type === 'object') return json;
+    return { type: 'object', properties: { result: json }, required: ['result'] };
+}
+
+/**
+ * Parses an already-decoded response, unwrapping the `{ result: ... }` envelope used for
+ * structured output when the schema's root isn't an object.
+ */
+export function parseWithSchema<T>(schema: Schema<T>, value: unknown): T {
+    if (schema.shape.kind !== 'object' && value && typeof value === 'object' && !Array.isArray(value) && 'result' in value) {
+        return schema.parse((value as { result: unknown }).result);
+    }
+    return schema.parse(value);
+}
+
+// --- Response schemas for the pipeline stages ---
+
+/**
+ * Identify-abstractions response. `isAllowedFile` limits indices to one map-reduce batch.
+ */
+export function abstractionListSchema(fileCount: number, isAllowedFile?: (idx: number) => boolean) {
+    return array(object({
+        name: string({ nonEmpty: true }),
+        description: string({ nonEmpty: true }),
+        file_indices: array(index({ max: fileCount - 1, of: 'file', isAllowed: isAllowedFile }), { minItems: 1 }),
+    }), { minItems: 1 });
+}
+
+// Map-reduce merge response: each final abstraction lists the candidates it combines
+export function mergedAbstractionListSchema(candidateCount: number) {
+    return array(object({
+        name: string({ nonEmpty: true }),
+        description: string({ nonEmpty: true }),
+        candidate_indices: array(index({ max: candidateCount - 1, of: 'candidate' }), { minItems: 1 }),
+    }), { minItems: 1 });
+}
+
+export function relationshipsSchema(abstractionCount: number) {
+    const abstractionIndex = index({ max: abstractionCount - 1, of: 'abstraction' });
+    return object({
+        summary: string({ nonEmpty: true }),
+        relationships: array(object({
+            from_abstraction: abstractionIndex,
+            to_abstraction: abstractionIndex,
+            label: string({ nonEmpty: true }),
+        })),
+    });
+}
+
+// Every abstraction exactly once
+export function chapterOrderSchema(abstractionCount: number) {
+    return array(index({ max: abstractionCount - 1, of: 'abstraction' }), {
+        unique: true,
+        note: `every abstraction index 0-${abstractionCount - 1} exactly once`,
+        check: items => {
+            const seen = new Set(items);
+            const missing = Array.from({ length: abstractionCount }, (_, i) => i).filter(i => !seen.has(i));
+            return missing.length > 0 ? `missing abstraction indices ${missing.join(', ')}; every abstraction must appear exactly once` : null;
+        },
+    });
+}
+
+export const chapterSummarySchema = object({
+    summary: string({ nonEmpty: true }),
+    key_terms: optional(array(object({
+        term: string({ nonEmpty: true }),
+        meaning: string(),
+    }))),
+});
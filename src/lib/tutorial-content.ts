@@ -0,0 +1,42 @@
+// lib/tutorial-content.ts
+// Reads a finished tutorial back out of its zip: index.md plus the chapter files in order.
+import JSZip from 'jszip';
+import { ChapterInfo, TutorialContent } from './types';
+
+const CHAPTER_FILE_PATTERN = /^(\d+)_.+\.md$/;
+
+// Chapter list from the zip alone (jobs from before the chapter list was recorded):
+// `NN_Name.md` files in number order, named by their "# Chapter N: Name" heading
+function chaptersFromFilenames(zip: JSZip): Pick<ChapterInfo, 'num' | 'name' | 'filename'>[] {
+    return Object.keys(zip.files)
+        .map(filename => ({ filename, match: filename.match(CHAPTER_FILE_PATTERN) }))
+        .filter((entry): entry is { filename: string; match: RegExpMatchArray } => entry.match !== null)
+        .map(({ filename, match }) => ({ num: Number(match[1]), name: filename.replace(/^\d+_|\.md$/g, '').replace(/_/g, ' '), filename }))
+        .sort((a, b) => a.num - b.num);
+}
+
+/**
+ * `chapters` is the job's recorded chapter list; without it the list is derived from the filenames.
+ */
+export async function readTutorialContent(
+    zipBuffer: Buffer,
+    projectName: string,
+    chapters?: Pick<ChapterInfo, 'num' | 'name' | 'filename'>[]
+): Promise<{ success: boolean; data?: TutorialContent; error?: string }> {
+    const zip = await JSZip.loadAsync(zipBuffer);
+    const indexFile = zip.file('index.md');
+    if (!indexFile) return { success: false, error: "The tutorial zip has no index.md." };
+
+    const contents: TutorialContent['chapters'] = [];
+    for (const chapter of chapters ?? chaptersFromFilenames(zip)) {
+        const file = zip.file(chapter.filename);
+        if (!file) {
+            console.warn(`Chapter file ${chapter.filename} is missing from the tutorial zip.`);
+            continue;
+        }
+        const content = await file.async('string');
+        const heading = chapters ? null : content.match(/^#\s*Chapter\s+\d+\s*:\s*(.+)$/m);
+        contents.push({ ...chapter, name: heading ? heading[1].trim() : chapter.name, content });
+    }
+    return { success: true, data: { projectName, index: await indexFile.async('string'), chapters: contents } };
+}
@@ -9,16 +9,12 @@ export interface CrawledFile {
     name: string;
     description: string;
     files: number[]; // Indices referencing the files array
-    file_indices?: Array<number | string>; // Temporary field from LLM that gets processed
   }
   
   export interface Relationship {
     from: number; // Index of source abstraction
     to: number; // Index of target abstraction
     label: string;
-    // Temporary fields that might be returned by the LLM
-    from_abstraction?: number | string;
-    to_abstraction?: number | string;
   }
   
   export interface RelationshipData {
@@ -33,7 +29,50 @@ export interface CrawledFile {
     name: string;
     filename: string;
   }
+
+  // Condensed form of a written chapter, passed to later chapters instead of its full text
+  export interface ChapterSummary {
+    num: number;
+    name: string;
+    filename: string;
+    summary: string;
+    keyTerms: { term: string; meaning: string }[];
+    links: string[]; // Other chapter files this chapter links to
+  }
   
+  // The tutorial's outline after ordering, as shown for review; edits come back in the same shape
+  export interface TutorialPlan {
+      abstractions: Abstraction[];
+      relationships: RelationshipData;
+      chapterOrder: number[]; // Abstraction indices, one chapter each
+      files: string[]; // Paths of the crawled files, indexed like Abstraction.files
+  }
+
+  // A finished tutorial's Markdown, as read back from its zip for viewing and exports
+  export interface TutorialContent {
+      projectName: string;
+      index: string; // index.md
+      chapters: Array<Pick<ChapterInfo, 'num' | 'name' | 'filename'> & { content: string }>; // In chapter order
+  }
+
+  // Formats a finished tutorial can be exported to besides its Markdown zip
+  export type ExportFormat = 'html' | 'mkdocs' | 'epub';
+
+  // What a finished run keeps (next to the job's zip) so single chapters can be regenerated later
+  export interface TutorialState {
+      projectName: string;
+      language: string;
+      source: { repoUrl?: string; uploadName?: string }; // For index.md
+      abstractions: Abstraction[];
+      relationships: RelationshipData;
+      chapters: ChapterInfo[];
+      files: Array<FileData & { index: number }>; // Only the files abstractions reference, with their crawl indices
+      llm: Pick<GenerationInput, 'llmProvider' | 'llmModel' | 'llmStages'>; // Model routing the run used
+  }
+
+  // 'auto' uses map-reduce only when the files exceed the context budget
+  export type AbstractionDiscoveryMode = 'auto' | 'single' | 'map-reduce';
+
   export interface GenerationInput {
     sourceType: 'repo' | 'upload';
     repoUrl?: string;
@@ -44,8 +83,18 @@ export interface CrawledFile {
     excludePatterns?: string[];
     maxFileSize?: number;
     language?: string;
+    llmProvider?: LlmProviderName; // Overrides LLM_PROVIDER for this request
+    llmModel?: string; // Overrides the provider's default model
+    contextTokenBudget?: number; // Max tokens of file content in the identify-abstractions prompt
+    discoveryMode?: AbstractionDiscoveryMode; // Overrides ABSTRACTION_DISCOVERY_MODE
+    chapterConcurrency?: number; // Chapters written at once; overrides CHAPTER_CONCURRENCY
+    llmStages?: LlmStageOverrides; // Per-stage model / generation settings, over llmProvider and llmModel
+    reviewPlan?: boolean; // Pause after ordering until the plan is reviewed (background jobs only)
   }
   
+  // The request's settings as recorded with the job, for the library and "use these settings"; no file or token
+  export type GenerationSettings = Omit<GenerationInput, 'uploadedFile' | 'githubToken'>;
+
   export interface GenerationResult {
     success: boolean;
     outputBlob?: Blob; // The generated zip file
@@ -57,6 +106,7 @@ export interface CrawledFile {
   export interface FileData {
       path: string;
       content: string;
+      size?: number; // Bytes, as reported by the source
   }
   
   export interface FetchedFilesResult {
@@ -70,4 +120,189 @@ export interface CrawledFile {
       success: boolean;
       text?: string;
       error?: string;
-  }
\ No newline at end of file
+      provider?: string;
+      model?: string;
+      usage?: LlmUsage; // Absent when the provider didn't report it
+      cached?: boolean; // Served from the cache or replay fixtures (no tokens spent)
+      truncated?: boolean; // Stopped at the output token limit; the text is incomplete
+  }
+  export type PipelineStage = 'fetching' | 'abstractions' | 'relationships' | 'ordering' | 'review' | 'chapters' | 'packaging';
+
+  export type ProgressEventType = 'stage' | 'progress' | 'retry' | 'error' | 'cancelled';
+
+  export interface ProgressUpdate {
+      stage: PipelineStage;
+      type?: ProgressEventType; // 'stage' marks the start of a stage; defaults to 'progress'
+      message: string;
+      current?: number; // e.g. chapter N...
+      total?: number;   // ...of M
+  }
+
+  export interface ProgressEvent extends ProgressUpdate {
+      type: ProgressEventType;
+      timestamp: string; // ISO timestamp, used for per-stage timing
+  }
+
+  // 'awaiting_review': paused until the plan is submitted (see GenerationJob.plan)
+  // 'partial': the tutorial is ready, but some chapters are placeholders (see failedChapters)
+  export type JobStatus = 'queued' | 'running' | 'awaiting_review' | 'completed' | 'partial' | 'failed' | 'cancelled';
+
+  // A chapter that couldn't be written; the zip holds a placeholder file in its place
+  export interface FailedChapter {
+      num: number;
+      name: string;
+      filename: string;
+      error: string;
+  }
+
+  export interface GenerationJob {
+      id: string;
+      status: JobStatus;
+      stage?: PipelineStage;
+      message?: string;
+      progress?: { current: number; total: number };
+      events?: ProgressEvent[]; // Timeline of everything reported so far
+      source: string; // Repo URL or uploaded zip name
+      projectName?: string;
+      settings?: GenerationSettings;
+      fileName?: string; // Set once the zip is ready for download
+      report?: GenerationReport; // Token usage / cost, set on completion
+      plan?: TutorialPlan; // Set while the status is 'awaiting_review'
+      failedChapters?: FailedChapter[]; // Set when the status is 'partial'
+      chapters?: Pick<ChapterInfo, 'num' | 'name' | 'filename'>[]; // Set on completion; chapters can be regenerated one by one
+      error?: string;
+      createdAt: string; // ISO timestamps
+      updatedAt: string;
+  }
+
+  // A job as listed in the library: without its event log, plan and per-call usage
+  export type JobSummary = Omit<GenerationJob, 'events' | 'plan' | 'report'> & {
+      report?: Pick<GenerationReport, 'totals' | 'models'>;
+  };
+
+  export type LlmProviderName = 'gemini' | 'openai' | 'ollama';
+
+  export interface LlmGenerationConfig {
+      temperature?: number;
+      topK?: number;
+      topP?: number;
+      maxOutputTokens?: number;
+  }
+
+  // Pipeline stages that call the LLM; each can be routed to its own model
+  export type LlmStage = 'abstractions' | 'relationships' | 'ordering' | 'chapters' | 'summaries';
+
+  // One stage's overrides (config file, LLM_STAGE_CONFIG or the request); unset fields fall through
+  export interface LlmStageSettings extends LlmGenerationConfig {
+      provider?: LlmProviderName; // Setting a provider without a model means its default model
+      model?: string;
+  }
+
+  export type LlmStageOverrides = Partial<Record<LlmStage, LlmStageSettings>>;
+
+  // What a stage actually runs with, as recorded in generation-report.json
+  export interface ResolvedStageLlm {
+      provider: LlmProviderName;
+      model: string;
+      generationConfig: LlmGenerationConfig;
+  }
+
+  // Provider-neutral finish reasons; each provider maps its own values onto these
+  export type LlmFinishReason = 'stop' | 'max_tokens' | 'safety' | 'blocked' | 'other';
+
+  export interface LlmUsage {
+      promptTokens: number;
+      completionTokens: number;
+  }
+
+  export interface LlmProviderResponse {
+      text: string;
+      usage?: LlmUsage;
+      finishReason: LlmFinishReason;
+      rawFinishReason?: string; // Provider's own value, for error messages
+      details?: string; // Block reason / safety ratings etc.
+  }
+
+  // The subset of JSON Schema used to request structured output from providers
+  export interface JsonSchema {
+      type: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
+      description?: string;
+      items?: JsonSchema;
+      properties?: Record<string, JsonSchema>;
+      required?: string[];
+  }
+
+  export interface LlmProvider {
+      name: LlmProviderName;
+      defaultModel: string;
+      contextWindow: number; // Tokens the default models accept; drives the prompt context budget
+      isConfigured(): boolean; // False when the API key / endpoint is missing
+      supportsStructuredOutput(): boolean; // Whether generate() honors `responseSchema` (JSON mode)
+      generate(prompt: string, options: { model: string; generationConfig: LlmGenerationConfig; responseSchema?: JsonSchema; signal?: AbortSignal }): Promise<LlmProviderResponse>;
+  }
+
+  // Per-request provider/model override; unset fields fall back to env config
+  export interface LlmCallOptions {
+      provider?: LlmProviderName;
+      model?: string;
+      generationConfig?: LlmGenerationConfig; // Merged over the default generation config
+      responseSchema?: JsonSchema; // Ask for JSON matching this schema (only sent to providers that support it)
+      signal?: AbortSignal; // Cancels the call (while queued or in flight)
+      queueKey?: string; // Scheduler queue the call waits in (one per generation run), for fair sharing of rate limits
+  }
+
+  // One LLM attempt made by the pipeline, as recorded in generation-report.json
+  export interface LlmCallRecord {
+      step: string; // 'identify', 'relationships', 'order', 'chapter 3', ...
+      attempt: number; // 1-based; > 1 means a retry
+      success: boolean;
+      provider?: string;
+      model?: string;
+      cached: boolean;
+      promptTokens: number;
+      completionTokens: number;
+      estimatedCostUsd: number | null; // null when the model has no known pricing
+      error?: string;
+  }
+
+  export interface UsageTotals {
+      calls: number;
+      cachedCalls: number;
+      promptTokens: number;
+      completionTokens: number;
+      totalTokens: number;
+      estimatedCostUsd: number | null;
+  }
+
+  export interface GenerationReport {
+      projectName: string;
+      generatedAt: string;
+      totals: UsageTotals;
+      steps: Array<UsageTotals & { step: string; retries: number }>;
+      models?: Partial<Record<LlmStage, ResolvedStageLlm>>; // Provider, model and generation config per stage
+      calls: LlmCallRecord[];
+  }
+
+  // How the identify-abstractions context was fitted into its token budget
+  export interface ContextBudgetStats {
+      budgetTokens: number;
+      estimatedTokens: number; // Of the produced context
+      fullFiles: number;
+      outlinedFiles: number; // Reduced to their declarations
+      omittedFiles: number; // Only named in the context
+  }
+
+  // Crawl-only preview of what a generation would feed the model
+  export interface DryRunResult {
+      projectName: string;
+      files: { path: string; size: number }[];
+      skippedFiles: { path: string; reason: string }[];
+      totalBytes: number;
+      estimatedPromptTokens: number; // Abstraction-discovery prompt(s), which carry the file contents
+      contextBudget: ContextBudgetStats;
+      discoveryMode: 'single' | 'map-reduce'; // Abstraction discovery that would run
+      discoveryCalls: number; // LLM calls for discovery (map-reduce: one per batch + the merge)
+      provider: string;
+      model: string;
+      estimatedCostUsd: number | null; // Input cost of that prompt; null if the model is unpriced
+  }
@@ -0,0 +1,114 @@
+// lib/usage.ts
+import { GenerationReport, LlmCallRecord, LlmLlmCallResult, LlmStage, ResolvedStageLlm, UsageTotals } from './types';
+
+interface ModelPricing {
+    input: number;  // USD per 1M prompt tokens
+    output: number; // USD per 1M completion tokens
+}
+
+// List prices at time of writing; override or extend with LLM_PRICING_JSON,
+// e.g. '{"my-gateway-model": {"input": 0.5, "output": 1.5}}'
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+    'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+    'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    'gpt-4o': { input: 2.50, output: 10.00 },
+    'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+    'gpt-4.1': { input: 2.00, output: 8.00 },
+};
+
+function loadPricing(): Record<string, ModelPricing> {
+    const override = process.env.LLM_PRICING_JSON;
+    if (!override) return DEFAULT_PRICING;
+    try {
+        return { ...DEFAULT_PRICING, ...JSON.parse(override) };
+    } catch (error: any) {
+        console.warn(`Ignoring invalid LLM_PRICING_JSON: ${error.message}`);
+        return DEFAULT_PRICING;
+    }
+}
+
+const pricing = loadPricing();
+
+/**
+ * Estimated USD cost of a call, or null if the model's price is unknown.
+ * Local Ollama models are free.
+ */
+export function estimateCostUsd(provider: string | undefined, model: string | undefined, promptTokens: number, completionTokens: number): number | null {
+    if (provider === 'ollama') return 0;
+    const price = model ? pricing[model] ?? pricing[model.replace(/-(latest|\d{3,})$/, '')] : undefined;
+    if (!price) return null;
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Rough token count for text we haven't sent yet (~4 characters per token for code and English).
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function toCallRecord(step: string, attempt: number, result: LlmLlmCallResult): LlmCallRecord {
+    const promptTokens = result.cached ? 0 : result.usage?.promptTokens ?? 0;
+    const completionTokens = result.cached ? 0 : result.usage?.completionTokens ?? 0;
+    return {
+        step,
+        attempt,
+        success: result.success,
+        provider: result.provider,
+        model: result.model,
+        cached: Boolean(result.cached),
+        promptTokens,
+        completionTokens,
+        estimatedCostUsd: result.cached ? 0 : estimateCostUsd(result.provider, result.model, promptTokens, completionTokens),
+        error: result.error,
+    };
+}
+
+function sumCalls(calls: LlmCallRecord[]): UsageTotals {
+    const promptTokens = calls.reduce((sum, c) => sum + c.promptTokens, 0);
+    const completionTokens = calls.reduce((sum, c) => sum + c.completionTokens, 0);
+    // Any unpriced call makes the total unknown rather than silently low
+    const estimatedCostUsd = calls.some(c => c.estimatedCostUsd === null)
+        ? null
+        : calls.reduce((sum, c) => sum + (c.estimatedCostUsd ?? 0), 0);
+    return {
+        calls: calls.length,
+        cachedCalls: calls.filter(c => c.cached).length,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        estimatedCostUsd,
+    };
+}
+
+/**
+ * Aggregates recorded calls per pipeline step (in the order steps first ran) and overall.
+ * `models` records which provider/model/generation config each stage was routed to.
+ */
+export function buildGenerationReport(projectName: string, calls: LlmCallRecord[], models?: Partial<Record<LlmStage, ResolvedStageLlm>>): GenerationReport {
+    const stepNames = [...new Set(calls.map(c => c.step))];
+    return {
+        projectName,
+        generatedAt: new Date().toISOString(),
+        totals: sumCalls(calls),
+        steps: stepNames.map(step => {
+            const stepCalls = calls.filter(c => c.step === step);
+            return {
+                step,
+                retries: Math.max(...stepCalls.map(c => c.attempt)) - 1,
+                ...sumCalls(stepCalls),
+            };
+        }),
+        models,
+        calls,
+    };
+}
+
+export function formatUsd(cost: number | null): string {
+    if (cost === null) return 'unknown';
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
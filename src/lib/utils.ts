@@ -35,6 +35,101 @@ export function shouldIncludeFile(
     return micromatch.isMatch(filePath, effectiveInclude);
 }
 
+// --- The "- idx # path" listing of all files for the identify-abstractions step ---
+// fileIndices overrides the numbering when listing a subset of the files
+export function formatFileListing(files: { path: string }[], fileIndices?: number[]): string {
+    return files.map((f, i) => `- ${fileIndices?.[i] ?? i} # ${f.path}`).join('\n');
+}
+
+// Error reported by every step that stops because the user cancelled the generation
+export const CANCELLED_MESSAGE = "Generation cancelled.";
+
+/**
+ * Waits `ms`, or less if `signal` aborts first; callers check `signal.aborted` afterwards.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal?.aborted) return resolve();
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
+}
+
+/**
+ * Like Promise.all over `items.map(fn)`, but with at most `limit` calls in flight.
+ * Results are in input order regardless of completion order. Once `signal` aborts, no new
+ * items are started and their results stay undefined.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>, signal?: AbortSignal): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length && !signal?.aborted) {
+            const i = next++;
+            results[i] = await fn(items[i], i);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+    return results;
+}
+
+// Statements that open a block closed by a line with just `end`, per diagram type. The keyword
+// must be followed by a space or the end of the line: in a flowchart `loop --> handler` or
+// `box[Box]` are ordinary node ids, and only sequence diagrams have loop/alt/box... blocks.
+const MERMAID_BLOCK_OPENERS: Record<string, RegExp> = {
+    sequenceDiagram: /^(loop|alt|opt|par|critical|break|rect|box)(\s|$)/,
+    flowchart: /^subgraph(\s|$)/,
+    graph: /^subgraph(\s|$)/,
+};
+
+// First word of the diagram declaration, after any `---` frontmatter and %% comments/directives
+function mermaidDiagramType(body: string[]): string {
+    let i = 0;
+    if (body[0] === '---') {
+        const close = body.indexOf('---', 1);
+        if (close !== -1) i = close + 1;
+    }
+    const declaration = body.slice(i).find(l => l && !l.startsWith('%%'));
+    return declaration?.split(/\s/)[0] ?? '';
+}
+
+/**
+ * Checks that every fenced code block (``` or ~~~) is closed and that mermaid blocks close their
+ * subgraph/loop/alt... sections. Returns a description of the first problem, or null.
+ */
+export function checkMarkdownFences(markdown: string): string | null {
+    let open: { marker: string; info: string; line: number; body: string[] } | null = null;
+    const lines = markdown.split('\n');
+    for (const [n, line] of lines.entries()) {
+        const fence = line.match(/^\s*(`{3,}|~{3,})\s*([^`\s]*)/);
+        if (!open) {
+            if (fence) open = { marker: fence[1], info: fence[2].toLowerCase(), line: n + 1, body: [] };
+            continue;
+        }
+        // A closing fence uses the same character, at least as many times, and has no info string
+        const closes = fence && fence[1][0] === open.marker[0] && fence[1].length >= open.marker.length && !line.trim().slice(fence[1].length);
+        if (!closes) {
+            open.body.push(line.trim());
+            continue;
+        }
+        if (open.info === 'mermaid') {
+            const opener = MERMAID_BLOCK_OPENERS[mermaidDiagramType(open.body)];
+            const blocks = opener ? open.body.filter(l => opener.test(l)).length : 0;
+            const ends = open.body.filter(l => l === 'end').length;
+            if (blocks > ends) return `Mermaid diagram opened on line ${open.line} has ${blocks} subgraph/loop/alt block(s) but only ${ends} \`end\` line(s).`;
+            if (!open.body.some(Boolean)) return `Mermaid diagram opened on line ${open.line} is empty.`;
+        }
+        open = null;
+    }
+    if (open) return `Unclosed ${open.marker}${open.info} code block opened on line ${open.line}.`;
+    return null;
+}
+
 // --- Helper to get content for specific file indices ---
 // filesData is expected to be an array of { path: string; content: string }
 export function getContentForIndices(filesData: { path: string; content: string }[], indices: number[]): Record<string, string> {